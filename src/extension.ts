@@ -1,4 +1,6 @@
-import { execFile as execFileCallback } from 'child_process';
+import { ChildProcess, execFile as execFileCallback, spawn } from 'child_process';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import { promisify } from 'util';
@@ -11,8 +13,288 @@ interface ScriptDescriptor {
 	readonly label: string;
 	readonly languageId?: string;
 	readonly interpreterSetting?: string;
+	readonly commentPrefix?: string;
+	readonly initialTemplate?: string;
 	getDefaultInterpreters(): string[];
-	buildRunCommand(interpreter: string, scriptPath: string): string;
+	buildRunCommand(interpreter: string, scriptPath: string, scriptArguments: readonly string[], quote?: (value: string) => string): string;
+}
+
+interface ArgumentPreset {
+	readonly name: string;
+	readonly arguments: readonly string[];
+}
+
+interface StatusBarPin {
+	readonly scriptUri: string;
+	readonly text: string;
+	readonly icon: string;
+}
+
+interface ScriptInput {
+	readonly id: string;
+	readonly type: 'text' | 'password' | 'pick';
+	readonly prompt?: string;
+	readonly options: readonly string[];
+}
+
+interface ScriptMetadata {
+	readonly description?: string;
+	readonly tags: readonly string[];
+	readonly cwd?: string;
+	readonly env: Readonly<Record<string, string>>;
+	readonly interpreter?: string;
+	readonly minVersion?: string;
+	readonly venv?: string;
+	readonly dependencies?: readonly string[];
+	readonly target?: string;
+	readonly args?: readonly string[];
+	readonly inputs: readonly ScriptInput[];
+	readonly capture?: boolean;
+	readonly concurrency?: ConcurrencyPolicy;
+	readonly schedule?: ScriptSchedule;
+	readonly scheduleError?: string;
+	readonly triggers: readonly ScriptTrigger[];
+}
+
+type WorkingDirectoryMode = 'workspaceFolder' | 'pickWorkspaceFolder' | 'activeFileDirectory' | 'scriptDirectory' | 'custom';
+
+type ConcurrencyPolicy = 'parallel' | 'singleton' | 'queue' | 'restart';
+
+type PythonEnvironmentMode = 'none' | 'auto' | 'shared';
+
+type EditorOutputMode = 'replace' | 'insertBelow' | 'newDocument';
+
+type ProcessOutputSource = 'stdout' | 'stderr' | 'status';
+
+type ExecutionBackendKind = 'task' | 'process' | 'ssh' | 'docker';
+
+interface ExecutionTarget {
+	readonly name: string;
+	readonly backend: ExecutionBackendKind;
+	readonly command?: string;
+	readonly host?: string;
+	readonly port?: number;
+	readonly user?: string;
+	readonly identityFile?: string;
+	readonly container?: string;
+	readonly cwd?: string;
+	readonly interpreters: Readonly<Record<string, string>>;
+}
+
+interface EnvironmentProfile {
+	readonly name: string;
+	readonly variables: Readonly<Record<string, string>>;
+	readonly secrets: Readonly<Record<string, string>>;
+}
+
+interface ProcessSpec {
+	readonly command: string;
+	readonly args: readonly string[];
+	readonly shell: boolean;
+	readonly cwd?: string;
+	readonly env?: Readonly<Record<string, string>>;
+	readonly input?: string;
+}
+
+interface IntervalSchedule {
+	readonly kind: 'interval';
+	readonly expression: string;
+	readonly intervalMinutes: number;
+}
+
+interface CronSchedule {
+	readonly kind: 'cron';
+	readonly expression: string;
+	readonly minutes: ReadonlySet<number>;
+	readonly hours: ReadonlySet<number>;
+	readonly daysOfMonth: ReadonlySet<number>;
+	readonly months: ReadonlySet<number>;
+	readonly daysOfWeek: ReadonlySet<number>;
+	readonly restrictsDayOfMonth: boolean;
+	readonly restrictsDayOfWeek: boolean;
+}
+
+type ScriptSchedule = IntervalSchedule | CronSchedule;
+
+type ScriptTrigger =
+	| { readonly event: 'save'; readonly pattern: string }
+	| { readonly event: 'workspaceOpen' }
+	| { readonly event: 'branchChange'; readonly branch?: string }
+	| { readonly event: 'taskEnd'; readonly taskName: string };
+
+interface GitRepository {
+	readonly rootUri: vscode.Uri;
+	readonly state: {
+		readonly HEAD?: { readonly name?: string };
+		readonly onDidChange: vscode.Event<void>;
+	};
+}
+
+interface GitApi {
+	readonly repositories: readonly GitRepository[];
+	readonly onDidOpenRepository: vscode.Event<GitRepository>;
+}
+
+interface ScriptScheduleState {
+	readonly nextRunAt?: number;
+	readonly paused: boolean;
+	readonly enabled: boolean;
+}
+
+interface WorkingDirectorySelection {
+	readonly mode: WorkingDirectoryMode;
+	readonly path?: string;
+}
+
+interface RunLocation {
+	readonly cwd: string;
+	readonly variables: Readonly<Record<string, string>>;
+}
+
+interface ScriptReference {
+	readonly uri: vscode.Uri;
+	readonly descriptor: ScriptDescriptor;
+}
+
+interface RunScriptOptions {
+	readonly scriptArguments?: readonly string[];
+	readonly environment?: Readonly<Record<string, string>>;
+	readonly workingDirectory?: WorkingDirectorySelection;
+	readonly substituteVariables?: boolean;
+	readonly quiet?: boolean;
+	readonly unattended?: boolean;
+	readonly variables?: Readonly<Record<string, string>>;
+	readonly pipelineUri?: string;
+	readonly target?: string;
+	readonly input?: string;
+	readonly cancellation?: vscode.CancellationToken;
+}
+
+interface RunScriptResult {
+	readonly exitCode: number | undefined;
+	readonly stdout?: string;
+	readonly stderr?: string;
+}
+
+interface PipelineScriptStep {
+	readonly script: string;
+	readonly name?: string;
+	readonly args?: readonly string[];
+	readonly continueOnError?: boolean;
+}
+
+interface PipelineParallelStep {
+	readonly parallel: readonly PipelineScriptStep[];
+	readonly name?: string;
+}
+
+type PipelineStep = PipelineScriptStep | PipelineParallelStep;
+
+interface PipelineDefinition {
+	readonly description?: string;
+	readonly steps: readonly PipelineStep[];
+}
+
+type PipelineStepStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+interface ScriptItemDetails {
+	readonly argumentPresets?: readonly ArgumentPreset[];
+	readonly metadata?: ScriptMetadata;
+	readonly isRunning?: boolean;
+	readonly queuedRunCount?: number;
+	readonly scheduleState?: ScriptScheduleState;
+	readonly interpreterSelection?: InterpreterSelection;
+	readonly isPinned?: boolean;
+	readonly isFavorite?: boolean;
+	readonly readOnly?: boolean;
+	readonly parentId?: string;
+}
+
+type ScriptGrouping = 'folder' | 'tag' | 'language';
+
+interface ScriptLibrary {
+	readonly name: string;
+	readonly uri: vscode.Uri;
+	readonly readOnly: boolean;
+	readonly isWorkspaceLibrary?: boolean;
+}
+
+interface ScriptBundleEntry {
+	readonly path: string;
+	readonly content: string;
+	readonly argumentPresets: readonly ArgumentPreset[];
+	readonly interpreter?: string;
+}
+
+interface ScriptBundle {
+	readonly scripts: readonly ScriptBundleEntry[];
+	readonly interpreters: Readonly<Record<string, string>>;
+	readonly languageInterpreters: Readonly<Record<string, string>>;
+}
+
+interface ScriptsTreeProviderOptions {
+	getArgumentPresets?(uri: vscode.Uri): readonly ArgumentPreset[];
+	isScriptRunning?(uri: vscode.Uri): boolean;
+	getQueuedRunCount?(uri: vscode.Uri): number;
+	isPipelineRunning?(uri: vscode.Uri): boolean;
+	getPipelineStepStatus?(uri: vscode.Uri, stepKey: string): PipelineStepStatus | undefined;
+	getScheduleState?(uri: vscode.Uri): ScriptScheduleState | undefined;
+	isPinnedToStatusBar?(uri: vscode.Uri): boolean;
+	getFavoriteScripts?(): readonly vscode.Uri[];
+	getGrouping?(): ScriptGrouping;
+	getFilter?(): string | undefined;
+	getAdditionalLibraries?(): Promise<readonly ScriptLibrary[]>;
+	getInterpreterSelection?(uri: vscode.Uri, descriptor: ScriptDescriptor): InterpreterSelection | undefined;
+	getScriptOrder?(directory: vscode.Uri): readonly string[];
+}
+
+interface ActiveRun {
+	readonly runId: string;
+	readonly script: ScriptReference;
+	readonly pipelineUri?: string;
+	readonly replayOptions: RunScriptOptions;
+	readonly logPath?: string;
+	terminate?: () => void;
+	stopRequested: boolean;
+	queued: boolean;
+	finished: Promise<void>;
+}
+
+interface ScheduledScript {
+	readonly script: ScriptReference;
+	readonly schedule: ScriptSchedule;
+	nextRunAt: number | undefined;
+}
+
+interface TriggeredScript {
+	readonly script: ScriptReference;
+	readonly triggers: readonly ScriptTrigger[];
+}
+
+interface RunHistoryEntry {
+	readonly id: string;
+	readonly scriptUri: string;
+	readonly scriptName: string;
+	readonly startedAt: number;
+	readonly durationMs: number;
+	readonly exitCode?: number;
+	readonly arguments: readonly string[];
+	readonly environment?: Readonly<Record<string, string>>;
+	readonly cwd?: string;
+	readonly logPath?: string;
+	readonly target?: string;
+	readonly profile?: string;
+}
+
+interface DiscoveredInterpreter {
+	readonly command: string;
+	readonly version?: string;
+}
+
+interface InterpreterSelection {
+	readonly command: string;
+	readonly scope: 'script' | 'language';
+	readonly version?: string;
 }
 
 interface CustomInterpreter {
@@ -30,48 +312,58 @@ const BUILTIN_SCRIPT_DESCRIPTORS: readonly ScriptDescriptor[] = [
 		label: 'PowerShell (.ps1)',
 		languageId: 'powershell',
 		interpreterSetting: 'interpreters.powershell',
+		commentPrefix: '#',
 		getDefaultInterpreters: () => ['pwsh', 'powershell'],
-		buildRunCommand: (interpreter, scriptPath) => `${interpreter} -NoProfile -ExecutionPolicy Bypass -File ${quoteForCommandArgument(scriptPath)}`
+		buildRunCommand: (interpreter, scriptPath, scriptArguments, quote = quoteForCommandArgument) => appendCommandArguments(
+			`${interpreter} -NoProfile -ExecutionPolicy Bypass -File ${quote(scriptPath)}`,
+			scriptArguments,
+			quote
+		)
 	},
 	{
 		extension: '.sh',
 		label: 'Bash (.sh)',
 		languageId: 'shellscript',
 		interpreterSetting: 'interpreters.bash',
+		commentPrefix: '#',
 		getDefaultInterpreters: () => ['bash'],
-		buildRunCommand: (interpreter, scriptPath) => `${interpreter} ${quoteForCommandArgument(scriptPath)}`
+		buildRunCommand: (interpreter, scriptPath, scriptArguments, quote = quoteForCommandArgument) => appendCommandArguments(`${interpreter} ${quote(scriptPath)}`, scriptArguments, quote)
 	},
 	{
 		extension: '.zsh',
 		label: 'Zsh (.zsh)',
 		languageId: 'shellscript',
 		interpreterSetting: 'interpreters.bash',
+		commentPrefix: '#',
 		getDefaultInterpreters: () => ['bash'],
-		buildRunCommand: (interpreter, scriptPath) => `${interpreter} ${quoteForCommandArgument(scriptPath)}`
+		buildRunCommand: (interpreter, scriptPath, scriptArguments, quote = quoteForCommandArgument) => appendCommandArguments(`${interpreter} ${quote(scriptPath)}`, scriptArguments, quote)
 	},
 	{
 		extension: '.py',
 		label: 'Python (.py)',
 		languageId: 'python',
 		interpreterSetting: 'interpreters.python',
+		commentPrefix: '#',
 		getDefaultInterpreters: () => ['python'],
-		buildRunCommand: (interpreter, scriptPath) => `${interpreter} ${quoteForCommandArgument(scriptPath)}`
+		buildRunCommand: (interpreter, scriptPath, scriptArguments, quote = quoteForCommandArgument) => appendCommandArguments(`${interpreter} ${quote(scriptPath)}`, scriptArguments, quote)
 	},
 	{
 		extension: '.js',
 		label: 'JavaScript (.js)',
 		languageId: 'javascript',
 		interpreterSetting: 'interpreters.node',
+		commentPrefix: '//',
 		getDefaultInterpreters: () => ['node'],
-		buildRunCommand: (interpreter, scriptPath) => `${interpreter} ${quoteForCommandArgument(scriptPath)}`
+		buildRunCommand: (interpreter, scriptPath, scriptArguments, quote = quoteForCommandArgument) => appendCommandArguments(`${interpreter} ${quote(scriptPath)}`, scriptArguments, quote)
 	},
 	{
 		extension: '.ts',
 		label: 'TypeScript (.ts)',
 		languageId: 'typescript',
 		interpreterSetting: 'interpreters.tsNode',
+		commentPrefix: '//',
 		getDefaultInterpreters: () => ['ts-node'],
-		buildRunCommand: (interpreter, scriptPath) => `${interpreter} ${quoteForCommandArgument(scriptPath)}`
+		buildRunCommand: (interpreter, scriptPath, scriptArguments, quote = quoteForCommandArgument) => appendCommandArguments(`${interpreter} ${quote(scriptPath)}`, scriptArguments, quote)
 	}
 ];
 
@@ -79,6 +371,25 @@ const BUILTIN_BY_EXTENSION: ReadonlyMap<string, ScriptDescriptor> = new Map(
 	BUILTIN_SCRIPT_DESCRIPTORS.map((descriptor) => [descriptor.extension, descriptor])
 );
 
+const WORKING_DIRECTORY_MODES: readonly { mode: WorkingDirectoryMode; label: string; detail: string }[] = [
+	{ mode: 'workspaceFolder', label: 'First Workspace Folder', detail: 'Run in the first folder of the open workspace.' },
+	{ mode: 'pickWorkspaceFolder', label: 'Choose Workspace Folder', detail: 'Pick a workspace folder when the workspace has more than one.' },
+	{ mode: 'activeFileDirectory', label: 'Active File\'s Folder', detail: 'Run in the folder of the file open in the active editor.' },
+	{ mode: 'scriptDirectory', label: 'Script Folder', detail: 'Run in the folder that contains the script.' },
+	{ mode: 'custom', label: 'Absolute Path...', detail: 'Run in a folder you choose.' }
+];
+
+const CONCURRENCY_POLICIES: readonly ConcurrencyPolicy[] = ['parallel', 'singleton', 'queue', 'restart'];
+const PYTHON_ENVIRONMENT_MODES: readonly PythonEnvironmentMode[] = ['none', 'auto', 'shared'];
+const EDITOR_OUTPUT_MODES: readonly EditorOutputMode[] = ['replace', 'insertBelow', 'newDocument'];
+const DEFAULT_EXECUTION_TARGET_NAME = 'local';
+const LOCAL_EXECUTION_TARGETS: readonly ExecutionTarget[] = [
+	{ name: DEFAULT_EXECUTION_TARGET_NAME, backend: 'task', interpreters: {} },
+	{ name: 'process', backend: 'process', interpreters: {} }
+];
+const REMOTE_SCRIPT_DIRECTORY = '/tmp';
+const ENVIRONMENT_VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
 const WINDOWS_RESERVED_BASENAMES = new Set([
 	'con',
 	'prn',
@@ -105,18 +416,153 @@ const WINDOWS_RESERVED_BASENAMES = new Set([
 ]);
 
 const SAFETY_NOTICE_STATE_KEY = 'quickIt.safetyNoticeShown';
+const ARGUMENT_PRESETS_STATE_KEY = 'quickIt.argumentPresets';
+const STATUS_BAR_PINS_STATE_KEY = 'quickIt.statusBarPins';
+const STATUS_BAR_PIN_PRIORITY = 100;
+const STATUS_BAR_RESULT_DURATION_MS = 3000;
+const RUN_HISTORY_STATE_KEY = 'quickIt.runHistory';
+const PAUSED_SCHEDULES_STATE_KEY = 'quickIt.pausedSchedules';
+const FAVORITE_SCRIPTS_STATE_KEY = 'quickIt.favoriteScripts';
+const SCRIPT_ORDER_STATE_KEY = 'quickIt.scriptOrder';
+const SCRIPT_INTERPRETERS_STATE_KEY = 'quickIt.scriptInterpreters';
+const LANGUAGE_INTERPRETERS_STATE_KEY = 'quickIt.languageInterpreters';
+const LAST_EDITOR_SCRIPT_STATE_KEY = 'quickIt.lastEditorScript';
+const ACTIVE_ENVIRONMENT_PROFILE_STATE_KEY = 'quickIt.activeEnvironmentProfile';
+const ENVIRONMENT_SECRET_NAMES_STATE_KEY = 'quickIt.environmentSecretNames';
+const ENVIRONMENT_SECRET_KEY_PREFIX = 'quickIt.environmentSecret:';
+const INTERPRETER_VERSION_TIMEOUT_MS = 5000;
+const TOOLCHAIN_COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+const SHARED_PYTHON_ENVIRONMENT_DIRECTORY_NAME = 'python-env';
+const PROJECT_PYTHON_ENVIRONMENT_DIRECTORY_NAME = '.venv';
+const INSTALLED_DEPENDENCIES_FILE_NAME = 'quickit-dependencies.json';
+const LOCAL_NODE_RUNNERS: Readonly<Record<string, readonly string[]>> = {
+	'.ts': ['tsx', 'ts-node']
+};
+const COMMON_BIN_DIRECTORIES = ['/usr/local/bin', '/opt/homebrew/bin', '/usr/bin', '/bin'];
+const INTERPRETER_DISCOVERY_HINTS: Readonly<Record<string, { readonly commands: readonly string[]; readonly directories: readonly string[] }>> = {
+	'.py': {
+		commands: ['python3', 'python', 'py'],
+		directories: ['~/.pyenv/versions/*/bin', '~/AppData/Local/Programs/Python/*', ...COMMON_BIN_DIRECTORIES]
+	},
+	'.js': {
+		commands: ['node'],
+		directories: ['~/.nvm/versions/node/*/bin', '~/.volta/bin', '~/.local/share/fnm/node-versions/*/installation/bin', ...COMMON_BIN_DIRECTORIES]
+	},
+	'.ts': {
+		commands: ['ts-node', 'tsx'],
+		directories: ['~/.nvm/versions/node/*/bin', '~/.volta/bin', ...COMMON_BIN_DIRECTORIES]
+	},
+	'.ps1': { commands: ['pwsh', 'powershell'], directories: COMMON_BIN_DIRECTORIES },
+	'.sh': { commands: ['bash'], directories: COMMON_BIN_DIRECTORIES },
+	'.zsh': { commands: ['zsh', 'bash'], directories: COMMON_BIN_DIRECTORIES }
+};
+const APPROVED_WORKSPACE_LIBRARIES_STATE_KEY = 'quickIt.approvedWorkspaceLibraries';
+const PERSONAL_LIBRARY_NAME = 'Personal';
+const WORKSPACE_LIBRARY_FOLDER_NAME = '.quickit';
+const SCRIPT_GROUPINGS: readonly { grouping: ScriptGrouping; label: string; detail: string }[] = [
+	{ grouping: 'folder', label: 'Folder', detail: 'Show scripts in their folders.' },
+	{ grouping: 'tag', label: 'Tag', detail: 'Group scripts by their @tags.' },
+	{ grouping: 'language', label: 'Language', detail: 'Group scripts by interpreter.' }
+];
+const SCRIPT_BUNDLE_FORMAT = 'quick-it-bundle';
+const SCRIPT_BUNDLE_VERSION = 1;
+const TEMPLATES_DIRECTORY_NAME = 'templates';
+const SCRIPTS_TREE_MIME_TYPE = 'application/vnd.code.tree.quickit.scripts';
+const RUN_LOGS_DIRECTORY_NAME = 'logs';
+const SCHEDULE_LOCKS_DIRECTORY_NAME = 'schedule-locks';
+const SCHEDULE_TICK_INTERVAL_MS = 15 * 1000;
+const SCHEDULE_MISSED_RUN_TOLERANCE_MS = 60 * 1000;
+const SCHEDULE_SEARCH_LIMIT_MS = 8 * 366 * 24 * 60 * 60 * 1000;
+const SCHEDULE_ALIASES: Readonly<Record<string, string>> = {
+	hourly: '0 * * * *',
+	daily: '0 0 * * *',
+	weekly: '0 0 * * 0'
+};
+const CRON_FIELD_RANGES = [
+	{ name: 'minute', min: 0, max: 59 },
+	{ name: 'hour', min: 0, max: 23 },
+	{ name: 'day of month', min: 1, max: 31 },
+	{ name: 'month', min: 1, max: 12 },
+	{ name: 'day of week', min: 0, max: 7 }
+] as const;
+const DEFAULT_RUN_HISTORY_MAX_ENTRIES = 100;
+const PIPELINE_FILE_SUFFIX = '.pipeline.json';
+const METADATA_READ_LIMIT_BYTES = 16 * 1024;
+const EMPTY_SCRIPT_METADATA: ScriptMetadata = { tags: [], env: {}, inputs: [], triggers: [] };
+const DEFAULT_TRIGGER_DEBOUNCE_MS = 1000;
+const DEFAULT_LANGUAGE_COMMAND = '${interpreter} ${script} ${args}';
+
+class FolderItem extends vscode.TreeItem {
+	constructor(readonly uri: vscode.Uri, readonly readOnly = false) {
+		super(path.basename(uri.fsPath), vscode.TreeItemCollapsibleState.Collapsed);
+		this.id = uri.toString();
+		this.resourceUri = uri;
+		this.contextValue = readOnly ? 'quickIt.folder.readOnly' : 'quickIt.folder';
+		this.iconPath = vscode.ThemeIcon.Folder;
+		this.tooltip = uri.fsPath;
+	}
+}
+
+class LibraryItem extends vscode.TreeItem {
+	constructor(readonly library: ScriptLibrary, readonly exists: boolean) {
+		super(library.name, exists ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+		this.id = `library:${library.uri.toString()}`;
+		this.contextValue = library.readOnly ? 'quickIt.library.readOnly' : 'quickIt.library';
+		this.iconPath = new vscode.ThemeIcon(library.isWorkspaceLibrary ? 'root-folder' : 'library');
+		this.description = [
+			...(library.isWorkspaceLibrary ? ['workspace'] : []),
+			...(library.readOnly ? ['read-only'] : []),
+			...(exists ? [] : ['folder not found'])
+		].join(', ');
+		this.tooltip = library.uri.fsPath;
+	}
+
+	get uri(): vscode.Uri {
+		return this.library.uri;
+	}
+
+	get readOnly(): boolean {
+		return this.library.readOnly;
+	}
+}
 
 class ScriptItem extends vscode.TreeItem {
+	readonly argumentPresets: readonly ArgumentPreset[];
+	readonly metadata: ScriptMetadata;
+
 	constructor(
 		readonly uri: vscode.Uri,
-		readonly descriptor: ScriptDescriptor
+		readonly descriptor: ScriptDescriptor,
+		readonly details: ScriptItemDetails = {}
 	) {
-		super(path.basename(uri.fsPath), vscode.TreeItemCollapsibleState.None);
-		this.id = uri.toString();
+		const argumentPresets = details.argumentPresets ?? [];
+		const metadata = details.metadata ?? EMPTY_SCRIPT_METADATA;
+		super(
+			path.basename(uri.fsPath),
+			argumentPresets.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+		);
+		this.argumentPresets = argumentPresets;
+		this.metadata = metadata;
+		this.id = details.parentId ? `${details.parentId}/${uri.toString()}` : uri.toString();
 		this.resourceUri = uri;
-		this.contextValue = 'quickIt.script';
-		this.description = descriptor.label;
-		this.tooltip = uri.fsPath;
+		this.contextValue = [
+			'quickIt.script',
+			...(details.isRunning ? ['running'] : []),
+			...(metadata.schedule ? [details.scheduleState?.paused ? 'schedulePaused' : 'scheduled'] : []),
+			...(details.isPinned ? ['pinned'] : []),
+			...(details.isFavorite ? ['favorite'] : []),
+			...(details.readOnly ? ['readOnly'] : [])
+		].join('.');
+		if (details.isRunning) {
+			this.iconPath = new vscode.ThemeIcon('loading~spin');
+		}
+
+		this.description = [
+			...(details.queuedRunCount ? [`(${details.queuedRunCount} queued)`] : []),
+			metadata.description ?? descriptor.label,
+			...metadata.tags.map((tag) => `#${tag}`)
+		].join(' ');
+		this.tooltip = createScriptTooltip(uri, descriptor, metadata, details.scheduleState, details.interpreterSelection);
 		this.command = {
 			command: 'quick-it.runScript',
 			title: 'Run Script',
@@ -125,52 +571,391 @@ class ScriptItem extends vscode.TreeItem {
 	}
 }
 
-class ScriptsTreeProvider implements vscode.TreeDataProvider<ScriptItem> {
+class ArgumentPresetItem extends vscode.TreeItem {
+	constructor(
+		readonly script: ScriptItem,
+		readonly preset: ArgumentPreset
+	) {
+		super(preset.name, vscode.TreeItemCollapsibleState.None);
+		this.id = `${script.id ?? script.uri.toString()}#preset:${preset.name}`;
+		this.contextValue = 'quickIt.argumentPreset';
+		this.iconPath = new vscode.ThemeIcon('symbol-parameter');
+		this.description = formatArgumentsForDisplay(preset.arguments);
+		this.tooltip = `${path.basename(script.uri.fsPath)} ${formatArgumentsForDisplay(preset.arguments)}`;
+		this.command = {
+			command: 'quick-it.runArgumentPreset',
+			title: 'Run Argument Preset',
+			arguments: [this]
+		};
+	}
+
+	get uri(): vscode.Uri {
+		return this.script.uri;
+	}
+}
+
+class PipelineItem extends vscode.TreeItem {
+	constructor(
+		readonly uri: vscode.Uri,
+		readonly definition: PipelineDefinition | undefined,
+		readonly parseError: string | undefined,
+		isRunning = false,
+		readonly readOnly = false
+	) {
+		super(path.basename(uri.fsPath), vscode.TreeItemCollapsibleState.Collapsed);
+		this.id = uri.toString();
+		this.resourceUri = uri;
+		this.contextValue = ['quickIt.pipeline', ...(isRunning ? ['running'] : []), ...(readOnly ? ['readOnly'] : [])].join('.');
+		this.iconPath = new vscode.ThemeIcon(isRunning ? 'loading~spin' : 'list-ordered');
+		this.description = parseError ? 'Invalid pipeline' : definition?.description ?? `Pipeline (${definition?.steps.length ?? 0} steps)`;
+		this.tooltip = parseError ? `${uri.fsPath}\n\n${parseError}` : uri.fsPath;
+	}
+}
+
+class PipelineStepItem extends vscode.TreeItem {
+	constructor(
+		readonly pipeline: PipelineItem,
+		readonly step: PipelineStep,
+		readonly stepKey: string,
+		readonly status: PipelineStepStatus | undefined
+	) {
+		const isParallel = 'parallel' in step;
+		super(
+			step.name ?? (isParallel ? `Parallel (${step.parallel.length} steps)` : step.script),
+			isParallel ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+		);
+		this.id = `${pipeline.uri.toString()}#step:${stepKey}`;
+		this.contextValue = 'quickIt.pipelineStep';
+		this.iconPath = getPipelineStepIcon(status, isParallel);
+		const details: string[] = [];
+		if (!isParallel && step.name) {
+			details.push(step.script);
+		}
+
+		if (!isParallel && step.args && step.args.length > 0) {
+			details.push(formatArgumentsForDisplay(step.args));
+		}
+
+		if (!isParallel && step.continueOnError) {
+			details.push('continue on error');
+		}
+
+		if (status && status !== 'pending') {
+			details.push(status);
+		}
+
+		this.description = details.join(' · ');
+	}
+
+	get uri(): vscode.Uri {
+		return this.pipeline.uri;
+	}
+}
+
+class ScriptGroupItem extends vscode.TreeItem {
+	constructor(
+		readonly groupId: string,
+		label: string,
+		icon: string,
+		readonly children: readonly (ScriptItem | PipelineItem)[],
+		expanded: boolean
+	) {
+		super(label, expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+		this.id = groupId;
+		this.contextValue = groupId.startsWith('language:') ? 'quickIt.group.language' : 'quickIt.group';
+		this.iconPath = new vscode.ThemeIcon(icon);
+		this.description = String(children.length);
+	}
+}
+
+type QuickItTreeItem = LibraryItem | FolderItem | ScriptItem | ArgumentPresetItem | PipelineItem | PipelineStepItem | ScriptGroupItem;
+
+function isReadOnlyTreeItem(item: QuickItTreeItem): boolean {
+	if (item instanceof ScriptItem) {
+		return item.details.readOnly === true;
+	}
+
+	return (item instanceof LibraryItem || item instanceof FolderItem || item instanceof PipelineItem) && item.readOnly;
+}
+
+class ArgumentPresetStore {
+	constructor(private readonly state: vscode.Memento) {}
+
+	get(uri: vscode.Uri): readonly ArgumentPreset[] {
+		return this.readAll()[uri.toString()] ?? [];
+	}
+
+	async save(uri: vscode.Uri, preset: ArgumentPreset): Promise<void> {
+		const presets = this.get(uri).filter((existing) => existing.name !== preset.name);
+		presets.push({ name: preset.name, arguments: [...preset.arguments] });
+		presets.sort((left, right) => left.name.localeCompare(right.name, undefined, { sensitivity: 'base' }));
+		await this.write(uri, presets);
+	}
+
+	async remove(uri: vscode.Uri, name: string): Promise<void> {
+		await this.write(uri, this.get(uri).filter((existing) => existing.name !== name));
+	}
+
+	async move(oldUri: vscode.Uri, newUri: vscode.Uri): Promise<void> {
+		const allPresets: Record<string, ArgumentPreset[]> = {};
+		for (const [uri, presets] of Object.entries(this.readAll())) {
+			allPresets[remapMovedUri(uri, oldUri, newUri) ?? uri] = presets;
+		}
+
+		await this.state.update(ARGUMENT_PRESETS_STATE_KEY, allPresets);
+	}
+
+	private readAll(): Record<string, ArgumentPreset[]> {
+		return this.state.get<Record<string, ArgumentPreset[]>>(ARGUMENT_PRESETS_STATE_KEY) ?? {};
+	}
+
+	private async write(uri: vscode.Uri, presets: readonly ArgumentPreset[]): Promise<void> {
+		const allPresets = { ...this.readAll() };
+		if (presets.length > 0) {
+			allPresets[uri.toString()] = [...presets];
+		} else {
+			delete allPresets[uri.toString()];
+		}
+
+		await this.state.update(ARGUMENT_PRESETS_STATE_KEY, allPresets);
+	}
+}
+
+class EnvironmentSecretStore {
+	constructor(
+		private readonly secrets: vscode.SecretStorage,
+		private readonly state: vscode.Memento
+	) {}
+
+	getProfileNames(): string[] {
+		return Object.keys(this.readNames());
+	}
+
+	getNames(profile: string): readonly string[] {
+		return this.readNames()[profile] ?? [];
+	}
+
+	async get(profile: string): Promise<Record<string, string>> {
+		const values: Record<string, string> = {};
+		for (const name of this.getNames(profile)) {
+			const value = await this.secrets.get(this.getKey(profile, name));
+			if (value !== undefined) {
+				values[name] = value;
+			}
+		}
+
+		return values;
+	}
+
+	async set(profile: string, name: string, value: string): Promise<void> {
+		await this.secrets.store(this.getKey(profile, name), value);
+		await this.writeNames(profile, [...new Set([...this.getNames(profile), name])].sort());
+	}
+
+	async remove(profile: string, name: string): Promise<void> {
+		await this.secrets.delete(this.getKey(profile, name));
+		await this.writeNames(profile, this.getNames(profile).filter((existing) => existing !== name));
+	}
+
+	private getKey(profile: string, name: string): string {
+		return `${ENVIRONMENT_SECRET_KEY_PREFIX}${JSON.stringify([profile, name])}`;
+	}
+
+	// SecretStorage cannot list its keys, so the names live in global state next to it.
+	private readNames(): Record<string, string[]> {
+		return this.state.get<Record<string, string[]>>(ENVIRONMENT_SECRET_NAMES_STATE_KEY) ?? {};
+	}
+
+	private async writeNames(profile: string, names: readonly string[]): Promise<void> {
+		const allNames = { ...this.readNames() };
+		if (names.length > 0) {
+			allNames[profile] = [...names];
+		} else {
+			delete allNames[profile];
+		}
+
+		await this.state.update(ENVIRONMENT_SECRET_NAMES_STATE_KEY, allNames);
+	}
+}
+
+class StatusBarPinStore {
+	constructor(private readonly state: vscode.Memento) {}
+
+	getAll(): readonly StatusBarPin[] {
+		return this.state.get<StatusBarPin[]>(STATUS_BAR_PINS_STATE_KEY) ?? [];
+	}
+
+	get(uri: vscode.Uri): StatusBarPin | undefined {
+		return this.getAll().find((pin) => pin.scriptUri === uri.toString());
+	}
+
+	async save(pin: StatusBarPin): Promise<void> {
+		const pins = [...this.getAll()];
+		const existingIndex = pins.findIndex((existing) => existing.scriptUri === pin.scriptUri);
+		if (existingIndex >= 0) {
+			pins[existingIndex] = pin;
+		} else {
+			pins.push(pin);
+		}
+
+		await this.state.update(STATUS_BAR_PINS_STATE_KEY, pins);
+	}
+
+	async remove(uri: vscode.Uri): Promise<void> {
+		await this.state.update(STATUS_BAR_PINS_STATE_KEY, this.getAll().filter((pin) => pin.scriptUri !== uri.toString()));
+	}
+
+	async move(oldUri: vscode.Uri, newUri: vscode.Uri): Promise<void> {
+		await this.state.update(
+			STATUS_BAR_PINS_STATE_KEY,
+			this.getAll().map((pin) => ({ ...pin, scriptUri: remapMovedUri(pin.scriptUri, oldUri, newUri) ?? pin.scriptUri }))
+		);
+	}
+}
+
+class ScriptOrderStore {
+	constructor(private readonly state: vscode.Memento) {}
+
+	get(directory: vscode.Uri): readonly string[] {
+		return this.readAll()[directory.toString()] ?? [];
+	}
+
+	async set(directory: vscode.Uri, names: readonly string[]): Promise<void> {
+		const allOrders = { ...this.readAll() };
+		if (names.length > 0) {
+			allOrders[directory.toString()] = [...names];
+		} else {
+			delete allOrders[directory.toString()];
+		}
+
+		await this.state.update(SCRIPT_ORDER_STATE_KEY, allOrders);
+	}
+
+	async move(oldUri: vscode.Uri, newUri: vscode.Uri): Promise<void> {
+		const oldDirectory = vscode.Uri.joinPath(oldUri, '..').toString();
+		const newDirectory = vscode.Uri.joinPath(newUri, '..').toString();
+		const oldName = path.basename(oldUri.fsPath);
+		const allOrders: Record<string, string[]> = {};
+		for (const [directory, names] of Object.entries(this.readAll())) {
+			// A rename keeps the script's place; a move to another folder drops it from the old folder's order.
+			const updatedNames = directory !== oldDirectory
+				? names
+				: oldDirectory === newDirectory
+					? names.map((name) => (name === oldName ? path.basename(newUri.fsPath) : name))
+					: names.filter((name) => name !== oldName);
+			allOrders[remapMovedUri(directory, oldUri, newUri) ?? directory] = updatedNames;
+		}
+
+		await this.state.update(SCRIPT_ORDER_STATE_KEY, allOrders);
+	}
+
+	private readAll(): Record<string, string[]> {
+		return this.state.get<Record<string, string[]>>(SCRIPT_ORDER_STATE_KEY) ?? {};
+	}
+}
+
+class ScriptsTreeProvider implements vscode.TreeDataProvider<QuickItTreeItem> {
 	private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
 	private hasShownReadError = false;
 	readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
 
 	constructor(
 		private readonly getScriptsDirectory: () => Promise<vscode.Uri>,
-		private readonly resolveDescriptorForUri: (uri: vscode.Uri) => ScriptDescriptor | undefined
+		private readonly resolveDescriptorForUri: (uri: vscode.Uri) => ScriptDescriptor | undefined,
+		private readonly options: ScriptsTreeProviderOptions = {}
 	) {}
 
 	refresh(): void {
 		this.onDidChangeTreeDataEmitter.fire();
 	}
 
-	getTreeItem(element: ScriptItem): vscode.TreeItem {
+	getTreeItem(element: QuickItTreeItem): vscode.TreeItem {
 		return element;
 	}
 
-	async getChildren(element?: ScriptItem): Promise<ScriptItem[]> {
-		if (element) {
+	async getChildren(element?: QuickItTreeItem): Promise<QuickItTreeItem[]> {
+		if (element instanceof ScriptItem) {
+			return element.argumentPresets.map((preset) => new ArgumentPresetItem(element, preset));
+		}
+
+		if (element instanceof ArgumentPresetItem) {
 			return [];
 		}
 
+		if (element instanceof ScriptGroupItem) {
+			return [...element.children];
+		}
+
+		if (element instanceof PipelineItem) {
+			return element.definition?.steps.map((step, index) => this.createPipelineStepItem(element, step, String(index))) ?? [];
+		}
+
+		if (element instanceof PipelineStepItem) {
+			const step = element.step;
+			return 'parallel' in step
+				? step.parallel.map((parallelStep, index) => this.createPipelineStepItem(element.pipeline, parallelStep, `${element.stepKey}.${index}`))
+				: [];
+		}
+
 		try {
-			const scriptsDirectory = await this.getScriptsDirectory();
-			await vscode.workspace.fs.createDirectory(scriptsDirectory);
-			const entries = await vscode.workspace.fs.readDirectory(scriptsDirectory);
-			const scriptItems: ScriptItem[] = [];
+			let directory: vscode.Uri;
+			let readOnly = false;
+			const libraries = await this.getLibraries();
+			if (element) {
+				directory = element.uri;
+				readOnly = element instanceof LibraryItem || element instanceof FolderItem ? element.readOnly : false;
+			} else {
+				directory = libraries[0].uri;
+				await vscode.workspace.fs.createDirectory(directory);
+				const grouping = this.options.getGrouping?.() ?? 'folder';
+				const filter = this.options.getFilter?.()?.trim();
+				if (grouping !== 'folder' || filter) {
+					return await this.getGroupedChildren(libraries, grouping, filter);
+				}
+
+				if (libraries.length > 1) {
+					const libraryItems = await Promise.all(libraries.map(async (library) => new LibraryItem(library, await uriExists(library.uri))));
+					this.hasShownReadError = false;
+					return [...await this.createFavoritesGroup(libraries, []), ...libraryItems];
+				}
+			}
+
+			const entries = await vscode.workspace.fs.readDirectory(directory);
+			const folderItems: FolderItem[] = [];
+			const scriptItems: (ScriptItem | PipelineItem)[] = [];
 
 			for (const [entryName, fileType] of entries) {
+				const uri = vscode.Uri.joinPath(directory, entryName);
+				if (fileType & vscode.FileType.Directory) {
+					if (!entryName.startsWith('.') && !libraries.some((library) => isSamePath(library.uri.fsPath, uri.fsPath))) {
+						folderItems.push(new FolderItem(uri, readOnly));
+					}
+
+					continue;
+				}
+
 				if (fileType !== vscode.FileType.File) {
 					continue;
 				}
 
-				const uri = vscode.Uri.joinPath(scriptsDirectory, entryName);
+				if (isPipelineFileName(entryName)) {
+					scriptItems.push(await this.createPipelineItem(uri, readOnly));
+					continue;
+				}
+
 				const descriptor = this.resolveDescriptorForUri(uri);
 				if (!descriptor) {
 					continue;
 				}
 
-				scriptItems.push(new ScriptItem(uri, descriptor));
+				scriptItems.push(await this.createScriptItem(uri, descriptor, readOnly));
 			}
 
-			scriptItems.sort((left, right) => path.basename(left.uri.fsPath).localeCompare(path.basename(right.uri.fsPath), undefined, { sensitivity: 'base' }));
+			folderItems.sort(compareTreeItemsByName);
+			scriptItems.sort(compareTreeItemsByName);
+			const orderedScriptItems = sortByScriptOrder(scriptItems, this.options.getScriptOrder?.(directory) ?? []);
 			this.hasShownReadError = false;
-			return scriptItems;
+			return [...(element ? [] : await this.createFavoritesGroup(libraries, [])), ...folderItems, ...orderedScriptItems];
 		} catch (error) {
 			if (!this.hasShownReadError) {
 				this.hasShownReadError = true;
@@ -180,77 +965,773 @@ class ScriptsTreeProvider implements vscode.TreeDataProvider<ScriptItem> {
 			return [];
 		}
 	}
-}
 
-export function activate(context: vscode.ExtensionContext): QuickItApi {
-	const customInterpreters = new Map<string, CustomInterpreter>();
-	let hasShownWorkspaceConfigurationWarning = false;
+	private async getLibraries(): Promise<ScriptLibrary[]> {
+		return [
+			{ name: PERSONAL_LIBRARY_NAME, uri: await this.getScriptsDirectory(), readOnly: false },
+			...await this.options.getAdditionalLibraries?.() ?? []
+		];
+	}
 
-	const getQuickItSettingValue = (settingPath: string): string | undefined => {
-		const { value, hasWorkspaceOverride } = getQuickItConfigurationValue(settingPath);
-		if (hasWorkspaceOverride && !hasShownWorkspaceConfigurationWarning) {
-			hasShownWorkspaceConfigurationWarning = true;
-			void vscode.window.showWarningMessage(
-				'QuickIt ignores workspace-level quickIt settings for security. Configure QuickIt in User settings instead.'
-			);
+	private async getGroupedChildren(
+		libraries: readonly ScriptLibrary[],
+		grouping: ScriptGrouping,
+		filter: string | undefined
+	): Promise<QuickItTreeItem[]> {
+		const matchingItems: { item: ScriptItem | PipelineItem; groups: string[] }[] = [];
+		for (const [libraryIndex, library] of libraries.entries()) {
+			if (!(await uriExists(library.uri))) {
+				continue;
+			}
+
+			for (const uri of await listScriptFiles(library.uri, getNestedLibraryRoots(libraries, library))) {
+				const scriptPath = getLibraryScriptPath(library, uri, libraryIndex === 0);
+				const descriptor = this.resolveDescriptorForUri(uri);
+				let item: ScriptItem | PipelineItem;
+				let groups: string[];
+				if (isPipelineFileName(uri.fsPath)) {
+					item = await this.createPipelineItem(uri, library.readOnly);
+					groups = grouping === 'language' ? ['Pipeline'] : [];
+				} else if (descriptor) {
+					item = await this.createScriptItem(uri, descriptor, library.readOnly);
+					groups = grouping === 'language' ? [descriptor.label] : [...item.metadata.tags];
+				} else {
+					continue;
+				}
+
+				const metadata = item instanceof ScriptItem ? item.metadata : EMPTY_SCRIPT_METADATA;
+				const readContent = async (): Promise<string> => Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+				if (filter && !(await matchesScriptFilter(filter, scriptPath, metadata, readContent))) {
+					continue;
+				}
+
+				item.label = scriptPath;
+				matchingItems.push({ item, groups });
+			}
+		}
+
+		matchingItems.sort((left, right) => String(left.item.label).localeCompare(String(right.item.label), undefined, { sensitivity: 'base' }));
+		this.hasShownReadError = false;
+		const favoritesGroup = await this.createFavoritesGroup(libraries, matchingItems.map(({ item }) => item.uri), Boolean(filter));
+		if (grouping === 'folder') {
+			return [...favoritesGroup, ...matchingItems.map(({ item }) => item)];
+		}
+
+		const groupNames = [...new Set(matchingItems.flatMap(({ groups }) => groups))]
+			.sort((left, right) => left.localeCompare(right, undefined, { sensitivity: 'base' }));
+		const groupItems = groupNames.map((groupName) => this.createGroupItem(
+			`${grouping}:${groupName}`,
+			grouping === 'tag' ? `#${groupName}` : groupName,
+			grouping === 'tag' ? 'tag' : 'symbol-namespace',
+			matchingItems.filter(({ groups }) => groups.includes(groupName)).map(({ item }) => item),
+			Boolean(filter)
+		));
+		const ungroupedItems = matchingItems.filter(({ groups }) => groups.length === 0).map(({ item }) => item);
+		if (ungroupedItems.length > 0) {
+			groupItems.push(this.createGroupItem(`${grouping}:`, 'Untagged', 'circle-slash', ungroupedItems, Boolean(filter)));
+		}
+
+		return [...favoritesGroup, ...groupItems];
+	}
+
+	private async createFavoritesGroup(
+		libraries: readonly ScriptLibrary[],
+		candidates: readonly vscode.Uri[],
+		onlyCandidates = false
+	): Promise<ScriptGroupItem[]> {
+		const candidateKeys = new Set(candidates.map((uri) => uri.toString()));
+		const favoriteItems: ScriptItem[] = [];
+		for (const uri of this.options.getFavoriteScripts?.() ?? []) {
+			const descriptor = this.resolveDescriptorForUri(uri);
+			const library = findLibraryForUri(libraries, uri);
+			if (!descriptor || !library || (onlyCandidates && !candidateKeys.has(uri.toString())) || !(await uriExists(uri))) {
+				continue;
+			}
+
+			favoriteItems.push(await this.createScriptItem(uri, descriptor, library.readOnly, 'favorites'));
+		}
+
+		favoriteItems.sort(compareTreeItemsByName);
+		return favoriteItems.length > 0 ? [new ScriptGroupItem('favorites', 'Favorites', 'star-full', favoriteItems, true)] : [];
+	}
+
+	private createGroupItem(
+		groupId: string,
+		label: string,
+		icon: string,
+		items: readonly (ScriptItem | PipelineItem)[],
+		expanded: boolean
+	): ScriptGroupItem {
+		// A script with several tags shows up in several groups, so each copy needs its own tree id.
+		const children = items.map((item) => {
+			if (!(item instanceof ScriptItem)) {
+				return item;
+			}
+
+			const groupedItem = new ScriptItem(item.uri, item.descriptor, { ...item.details, parentId: groupId });
+			groupedItem.label = item.label;
+			return groupedItem;
+		});
+		return new ScriptGroupItem(groupId, label, icon, children, expanded);
+	}
+
+	private async createScriptItem(uri: vscode.Uri, descriptor: ScriptDescriptor, readOnly: boolean, parentId?: string): Promise<ScriptItem> {
+		return new ScriptItem(uri, descriptor, {
+			argumentPresets: this.options.getArgumentPresets?.(uri),
+			metadata: await readScriptMetadata(uri, descriptor),
+			isRunning: this.options.isScriptRunning?.(uri),
+			queuedRunCount: this.options.getQueuedRunCount?.(uri),
+			scheduleState: this.options.getScheduleState?.(uri),
+			interpreterSelection: this.options.getInterpreterSelection?.(uri, descriptor),
+			isPinned: this.options.isPinnedToStatusBar?.(uri),
+			isFavorite: (this.options.getFavoriteScripts?.() ?? []).some((favorite) => favorite.toString() === uri.toString()),
+			readOnly,
+			parentId
+		});
+	}
+
+	private async createPipelineItem(uri: vscode.Uri, readOnly: boolean): Promise<PipelineItem> {
+		try {
+			const definition = parsePipelineDefinition(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+			return new PipelineItem(uri, definition, undefined, this.options.isPipelineRunning?.(uri), readOnly);
+		} catch (error) {
+			return new PipelineItem(uri, undefined, toErrorMessage(error), false, readOnly);
+		}
+	}
+
+	private createPipelineStepItem(pipeline: PipelineItem, step: PipelineStep, stepKey: string): PipelineStepItem {
+		return new PipelineStepItem(pipeline, step, stepKey, this.options.getPipelineStepStatus?.(pipeline.uri, stepKey));
+	}
+}
+
+class RunHistoryStore {
+	constructor(private readonly state: vscode.Memento) {}
+
+	getAll(): readonly RunHistoryEntry[] {
+		return this.state.get<RunHistoryEntry[]>(RUN_HISTORY_STATE_KEY) ?? [];
+	}
+
+	async add(entry: RunHistoryEntry, maxEntries: number): Promise<void> {
+		const entries = [entry, ...this.getAll().filter((existing) => existing.id !== entry.id)];
+		await this.state.update(RUN_HISTORY_STATE_KEY, entries.slice(0, Math.max(0, maxEntries)));
+	}
+
+	async trim(maxEntries: number): Promise<void> {
+		const entries = this.getAll();
+		if (entries.length > maxEntries) {
+			await this.state.update(RUN_HISTORY_STATE_KEY, entries.slice(0, Math.max(0, maxEntries)));
+		}
+	}
+
+	async move(oldUri: vscode.Uri, newUri: vscode.Uri): Promise<void> {
+		await this.state.update(
+			RUN_HISTORY_STATE_KEY,
+			this.getAll().map((entry) => ({ ...entry, scriptUri: remapMovedUri(entry.scriptUri, oldUri, newUri) ?? entry.scriptUri }))
+		);
+	}
+
+	async clear(): Promise<void> {
+		await this.state.update(RUN_HISTORY_STATE_KEY, []);
+	}
+}
+
+class RunHistoryItem extends vscode.TreeItem {
+	constructor(readonly entry: RunHistoryEntry) {
+		super(entry.scriptName, vscode.TreeItemCollapsibleState.None);
+		this.id = `history:${entry.id}`;
+		this.contextValue = entry.logPath ? 'quickIt.historyEntry.withLog' : 'quickIt.historyEntry';
+		this.iconPath = getExitCodeIcon(entry.exitCode);
+		this.description = [
+			formatExitCode(entry.exitCode),
+			formatDuration(entry.durationMs),
+			new Date(entry.startedAt).toLocaleString()
+		].join(' · ');
+		this.tooltip = createRunHistoryTooltip(entry);
+		this.command = {
+			command: 'quick-it.openHistoryScript',
+			title: 'Open Script',
+			arguments: [this]
+		};
+	}
+}
+
+class RunHistoryTreeProvider implements vscode.TreeDataProvider<RunHistoryItem> {
+	private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+	readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+	constructor(private readonly historyStore: RunHistoryStore) {}
+
+	refresh(): void {
+		this.onDidChangeTreeDataEmitter.fire();
+	}
+
+	getTreeItem(element: RunHistoryItem): vscode.TreeItem {
+		return element;
+	}
+
+	getChildren(element?: RunHistoryItem): RunHistoryItem[] {
+		if (element) {
+			return [];
+		}
+
+		return this.historyStore.getAll().map((entry) => new RunHistoryItem(entry));
+	}
+}
+
+function createRunHistoryTooltip(entry: RunHistoryEntry): vscode.MarkdownString {
+	const tooltip = new vscode.MarkdownString();
+	tooltip.appendText(vscode.Uri.parse(entry.scriptUri).fsPath);
+	tooltip.appendMarkdown('\n\n');
+	tooltip.appendText(`Started: ${new Date(entry.startedAt).toLocaleString()}`);
+	tooltip.appendMarkdown('\n\n');
+	tooltip.appendText(`Duration: ${formatDuration(entry.durationMs)}`);
+	tooltip.appendMarkdown('\n\n');
+	tooltip.appendText(`Result: ${formatExitCode(entry.exitCode)}`);
+	if (entry.arguments.length > 0) {
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText(`Arguments: ${formatArgumentsForDisplay(entry.arguments)}`);
+	}
+
+	if (entry.cwd) {
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText(`Working directory: ${entry.cwd}`);
+	}
+
+	if (entry.target && entry.target !== DEFAULT_EXECUTION_TARGET_NAME) {
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText(`Target: ${entry.target}`);
+	}
+
+	if (entry.profile) {
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText(`Environment profile: ${entry.profile}`);
+	}
+
+	if (entry.logPath) {
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText(`Log: ${entry.logPath}`);
+	}
+
+	return tooltip;
+}
+
+function getExitCodeIcon(exitCode: number | undefined): vscode.ThemeIcon {
+	if (exitCode === undefined) {
+		return new vscode.ThemeIcon('circle-outline');
+	}
+
+	return exitCode === 0
+		? new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+		: new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+}
+
+function formatExitCode(exitCode: number | undefined): string {
+	return exitCode === undefined ? 'exit code unknown' : `exit ${exitCode}`;
+}
+
+function formatDuration(durationMs: number): string {
+	if (durationMs < 1000) {
+		return `${Math.max(0, Math.round(durationMs))}ms`;
+	}
+
+	// Round before splitting so 59.96s and 1m 59.6s do not show up as "60.0s" or "1m 60s".
+	const totalSeconds = durationMs / 1000;
+	if (totalSeconds < 59.95) {
+		return `${totalSeconds.toFixed(1)}s`;
+	}
+
+	const roundedSeconds = Math.round(totalSeconds);
+	const minutes = Math.floor(roundedSeconds / 60);
+	const seconds = roundedSeconds % 60;
+	if (minutes < 60) {
+		return `${minutes}m ${seconds}s`;
+	}
+
+	return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+class ScriptProcess {
+	private childProcess: ChildProcess | undefined;
+	private logStream: fs.WriteStream | undefined;
+	private hasFinished = false;
+	private resolveExited: ((exitCode: number) => void) | undefined;
+	exitCode: number | undefined;
+	readonly exited = new Promise<number>((resolve) => {
+		this.resolveExited = resolve;
+	});
+
+	constructor(
+		private readonly title: string,
+		private readonly commandLine: string,
+		private readonly spec: ProcessSpec,
+		private readonly logPath: string | undefined,
+		private readonly outputChannel: vscode.OutputChannel | undefined,
+		private readonly onOutput: (text: string, source: ProcessOutputSource) => void
+	) {}
+
+	stop(signal?: NodeJS.Signals): void {
+		this.childProcess?.kill(signal);
+	}
+
+	write(data: string): void {
+		// Input supplied up front (editor text, or a script streamed to a remote target) already closed stdin.
+		if (this.spec.input === undefined) {
+			this.childProcess?.stdin?.write(data);
+		}
+	}
+
+	async start(): Promise<void> {
+		const header = `> ${this.commandLine}\n`;
+		if (this.logPath) {
+			try {
+				await fs.promises.mkdir(path.dirname(this.logPath), { recursive: true });
+				this.logStream = fs.createWriteStream(this.logPath, { flags: 'w' });
+				this.logStream.on('error', (error) => {
+					console.error(`[QuickIt] Failed to write run log: ${toErrorMessage(error)}`);
+				});
+				this.logStream.write(`# ${this.title}\n# Started: ${new Date().toISOString()}\n# Working directory: ${this.spec.cwd ?? process.cwd()}\n${header}`);
+			} catch (error) {
+				this.onOutput(`QuickIt could not create the log file: ${toErrorMessage(error)}\n`, 'status');
+			}
+		}
+
+		this.outputChannel?.appendLine(`[${new Date().toLocaleTimeString()}] ${this.title}`);
+		this.outputChannel?.append(header);
+		this.onOutput(header, 'status');
+
+		const childProcess = spawn(this.spec.command, [...this.spec.args], {
+			cwd: this.spec.cwd,
+			env: { ...process.env, ...this.spec.env },
+			shell: this.spec.shell
+		});
+		this.childProcess = childProcess;
+		childProcess.stdout?.setEncoding('utf8');
+		childProcess.stderr?.setEncoding('utf8');
+		childProcess.stdout?.on('data', (chunk: string) => this.handleOutput(chunk, 'stdout'));
+		childProcess.stderr?.on('data', (chunk: string) => this.handleOutput(chunk, 'stderr'));
+		childProcess.stdin?.on('error', () => undefined);
+		childProcess.on('error', (error) => {
+			this.handleOutput(`QuickIt failed to start the script: ${error.message}\n`, 'status');
+			this.finish(1);
+		});
+		childProcess.on('close', (code) => this.finish(code ?? 1));
+		if (this.spec.input !== undefined) {
+			childProcess.stdin?.end(this.spec.input);
+		}
+	}
+
+	private handleOutput(text: string, source: ProcessOutputSource): void {
+		this.onOutput(text, source);
+		this.outputChannel?.append(text);
+		this.logStream?.write(text);
+	}
+
+	private finish(exitCode: number): void {
+		if (this.hasFinished) {
+			return;
+		}
+
+		this.hasFinished = true;
+		this.exitCode = exitCode;
+		this.outputChannel?.appendLine(`[${new Date().toLocaleTimeString()}] ${this.title} exited with code ${exitCode}`);
+		this.logStream?.end(`\n# Exit code: ${exitCode}\n`);
+		this.resolveExited?.(exitCode);
+	}
+}
+
+class ScriptProcessPseudoterminal implements vscode.Pseudoterminal {
+	private readonly writeEmitter = new vscode.EventEmitter<string>();
+	private readonly closeEmitter = new vscode.EventEmitter<number>();
+	readonly onDidWrite = this.writeEmitter.event;
+	readonly onDidClose = this.closeEmitter.event;
+	readonly process: ScriptProcess;
+
+	constructor(
+		title: string,
+		commandLine: string,
+		spec: ProcessSpec,
+		logPath: string | undefined,
+		outputChannel: vscode.OutputChannel | undefined
+	) {
+		this.process = new ScriptProcess(title, commandLine, spec, logPath, outputChannel, (text) => {
+			this.writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+		});
+		void this.process.exited.then((exitCode) => {
+			this.writeEmitter.fire(`\r\nProcess exited with code ${exitCode}.\r\n`);
+			this.closeEmitter.fire(exitCode);
+		});
+	}
+
+	open(): void {
+		void this.process.start();
+	}
+
+	close(): void {
+		this.process.stop();
+	}
+
+	handleInput(data: string): void {
+		if (data === '\x03') {
+			this.writeEmitter.fire('^C\r\n');
+			this.process.stop('SIGINT');
+			return;
+		}
+
+		this.writeEmitter.fire(data.replace(/\r/g, '\r\n'));
+		this.process.write(data.replace(/\r/g, os.EOL));
+	}
+}
+
+function getPipelineStepIcon(status: PipelineStepStatus | undefined, isParallel: boolean): vscode.ThemeIcon {
+	switch (status) {
+	case 'running':
+		return new vscode.ThemeIcon('loading~spin');
+	case 'succeeded':
+		return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+	case 'failed':
+		return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+	case 'skipped':
+		return new vscode.ThemeIcon('circle-slash');
+	default:
+		return new vscode.ThemeIcon(isParallel ? 'split-horizontal' : 'circle-outline');
+	}
+}
+
+function createScriptTooltip(
+	uri: vscode.Uri,
+	descriptor: ScriptDescriptor,
+	metadata: ScriptMetadata,
+	scheduleState?: ScriptScheduleState,
+	interpreterSelection?: InterpreterSelection
+): vscode.MarkdownString {
+	const tooltip = new vscode.MarkdownString();
+	if (metadata.description) {
+		tooltip.appendText(metadata.description);
+		tooltip.appendMarkdown('\n\n');
+	}
+
+	tooltip.appendText(uri.fsPath);
+	tooltip.appendMarkdown('\n\n');
+	tooltip.appendText(descriptor.label);
+	if (metadata.tags.length > 0) {
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText(`Tags: ${metadata.tags.join(', ')}`);
+	}
+
+	if (metadata.interpreter) {
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText(`Interpreter: ${metadata.interpreter} (from @interpreter)`);
+	} else if (interpreterSelection) {
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText([
+			`Interpreter: ${interpreterSelection.command}`,
+			...(interpreterSelection.version ? [interpreterSelection.version] : []),
+			`(selected for this ${interpreterSelection.scope})`
+		].join(' '));
+	}
+
+	if (metadata.minVersion) {
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText(`Requires version ${metadata.minVersion} or newer`);
+	}
+
+	if (metadata.cwd) {
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText(`Working directory: ${metadata.cwd}`);
+	}
+
+	if (metadata.target) {
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText(`Target: ${metadata.target}`);
+	}
+
+	if (metadata.scheduleError) {
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText(`Schedule: invalid (${metadata.scheduleError})`);
+	} else if (metadata.schedule) {
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText(`Schedule: ${metadata.schedule.expression} (${describeScheduleState(scheduleState)})`);
+	}
+
+	if (metadata.triggers.length > 0) {
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText(`Triggers: ${metadata.triggers.map(formatScriptTrigger).join(', ')}`);
+	}
+
+	return tooltip;
+}
+
+function formatScriptTrigger(trigger: ScriptTrigger): string {
+	switch (trigger.event) {
+	case 'save':
+		return `on save of ${trigger.pattern}`;
+	case 'workspaceOpen':
+		return 'on workspace open';
+	case 'branchChange':
+		return trigger.branch ? `on switch to branch ${trigger.branch}` : 'on branch change';
+	case 'taskEnd':
+		return `after task "${trigger.taskName}"`;
+	}
+}
+
+function describeScheduleState(scheduleState: ScriptScheduleState | undefined): string {
+	if (scheduleState && !scheduleState.enabled) {
+		return 'schedules are turned off';
+	}
+
+	if (scheduleState?.paused) {
+		return 'paused';
+	}
+
+	return scheduleState?.nextRunAt !== undefined
+		? `next run ${new Date(scheduleState.nextRunAt).toLocaleString()}`
+		: 'no upcoming run';
+}
+
+function sortByScriptOrder<T extends { readonly uri: vscode.Uri }>(items: readonly T[], order: readonly string[]): T[] {
+	// Scripts without a stored position keep their alphabetical order after the arranged ones.
+	const positions = new Map(order.map((name, index) => [name, index]));
+	const getPosition = (item: T): number => positions.get(path.basename(item.uri.fsPath)) ?? order.length;
+	return [...items].sort((left, right) => getPosition(left) - getPosition(right));
+}
+
+function compareTreeItemsByName(left: FolderItem | ScriptItem | PipelineItem, right: FolderItem | ScriptItem | PipelineItem): number {
+	return path.basename(left.uri.fsPath).localeCompare(path.basename(right.uri.fsPath), undefined, { sensitivity: 'base' });
+}
+
+export function activate(context: vscode.ExtensionContext): QuickItApi {
+	const customInterpreters = new Map<string, CustomInterpreter>();
+	let hasShownWorkspaceConfigurationWarning = false;
+
+	const warnAboutWorkspaceOverride = (hasWorkspaceOverride: boolean): void => {
+		if (hasWorkspaceOverride && !hasShownWorkspaceConfigurationWarning) {
+			hasShownWorkspaceConfigurationWarning = true;
+			void vscode.window.showWarningMessage(
+				'QuickIt ignores workspace-level quickIt settings for security. Configure QuickIt in User settings instead.'
+			);
 		}
+	};
 
+	const getQuickItSettingValue = (settingPath: string): string | undefined => {
+		const { value, hasWorkspaceOverride } = getQuickItConfigurationValue(settingPath);
+		warnAboutWorkspaceOverride(hasWorkspaceOverride);
 		return value;
 	};
 
+	const getQuickItSetting = <T>(settingPath: string, fallback: T): T => {
+		const { value, hasWorkspaceOverride } = inspectQuickItConfigurationValue<T>(settingPath);
+		warnAboutWorkspaceOverride(hasWorkspaceOverride);
+		return value ?? fallback;
+	};
+
 	const getScriptsDirectory = async (): Promise<vscode.Uri> => resolveScriptsDirectory(context, getQuickItSettingValue);
-	const resolveDescriptorForUri = (uri: vscode.Uri): ScriptDescriptor | undefined => {
-		const extension = normalizeExtension(path.extname(uri.fsPath));
-		const builtInDescriptor = BUILTIN_BY_EXTENSION.get(extension);
-		if (builtInDescriptor) {
-			return builtInDescriptor;
+	const getTemplatesDirectory = (): vscode.Uri => {
+		const configuredDirectory = getQuickItSettingValue('templates.directory');
+		return configuredDirectory
+			? vscode.Uri.file(resolveDirectoryPath(configuredDirectory))
+			: vscode.Uri.joinPath(context.globalStorageUri, TEMPLATES_DIRECTORY_NAME);
+	};
+	const getApprovedWorkspaceLibraries = (): string[] => context.globalState.get<string[]>(APPROVED_WORKSPACE_LIBRARIES_STATE_KEY, []);
+	const getWorkspaceLibraryCandidates = (): ScriptLibrary[] => (vscode.workspace.workspaceFolders ?? [])
+		.filter((folder) => folder.uri.scheme === 'file')
+		.map((folder) => ({
+			name: folder.name,
+			uri: vscode.Uri.joinPath(folder.uri, WORKSPACE_LIBRARY_FOLDER_NAME),
+			readOnly: false,
+			isWorkspaceLibrary: true
+		}));
+	const getAdditionalLibraries = (): ScriptLibrary[] => {
+		const configuredLibraries = parseLibrarySettings(getQuickItSetting<unknown>('libraries', []));
+		if (!vscode.workspace.isTrusted) {
+			return configuredLibraries;
+		}
+
+		const approvedLibraries = new Set(getApprovedWorkspaceLibraries());
+		const takenNames = new Set([PERSONAL_LIBRARY_NAME, ...configuredLibraries.map((library) => library.name)].map((name) => name.toLowerCase()));
+		const workspaceLibraries = getWorkspaceLibraryCandidates()
+			.filter((library) => approvedLibraries.has(library.uri.toString()))
+			.map((library) => takenNames.has(library.name.toLowerCase())
+				? { ...library, name: `${library.name} (workspace)` }
+				: library);
+		return [...configuredLibraries, ...workspaceLibraries];
+	};
+	const getScriptLibraries = async (): Promise<ScriptLibrary[]> => [
+		{ name: PERSONAL_LIBRARY_NAME, uri: await getScriptsDirectory(), readOnly: false },
+		...getAdditionalLibraries()
+	];
+	let configuredLanguages = new Map<string, ScriptDescriptor>();
+	const loadLanguageSettings = (): void => {
+		const { descriptors, errors } = parseLanguageSettings(getQuickItSetting<unknown>('languages', []));
+		configuredLanguages = new Map(descriptors.map((descriptor) => [descriptor.extension, descriptor]));
+		if (errors.length > 0) {
+			void vscode.window.showWarningMessage(`QuickIt ignored part of the quickIt.languages setting: ${errors.join(' ')}`);
+		}
+	};
+	const createCustomInterpreterDescriptor = (extension: string, customInterpreter: CustomInterpreter): ScriptDescriptor => ({
+		extension,
+		label: customInterpreter.label?.trim() || `Custom (${extension})`,
+		getDefaultInterpreters: () => [customInterpreter.command],
+		buildRunCommand: (interpreter, scriptPath, scriptArguments, quote = quoteForCommandArgument) => appendCommandArguments(`${interpreter} ${quote(scriptPath)}`, scriptArguments, quote)
+	});
+	const resolveDescriptorForExtension = (extension: string): ScriptDescriptor | undefined => {
+		const configuredDescriptor = configuredLanguages.get(extension) ?? BUILTIN_BY_EXTENSION.get(extension);
+		if (configuredDescriptor) {
+			return configuredDescriptor;
 		}
 
 		const customInterpreter = customInterpreters.get(extension);
-		if (!customInterpreter) {
-			return undefined;
+		return customInterpreter ? createCustomInterpreterDescriptor(extension, customInterpreter) : undefined;
+	};
+	const resolveDescriptorForUri = (uri: vscode.Uri): ScriptDescriptor | undefined => resolveDescriptorForExtension(normalizeExtension(path.extname(uri.fsPath)));
+	const getScriptDescriptors = (): ScriptDescriptor[] => {
+		// Settings replace built-ins in place so the Add Script list keeps a stable order.
+		const descriptors = new Map<string, ScriptDescriptor>(BUILTIN_SCRIPT_DESCRIPTORS.map((descriptor) => [descriptor.extension, descriptor]));
+		for (const [extension, customInterpreter] of customInterpreters) {
+			descriptors.set(extension, createCustomInterpreterDescriptor(extension, customInterpreter));
 		}
 
-		return {
-			extension,
-			label: customInterpreter.label?.trim() || `Custom (${extension})`,
-			getDefaultInterpreters: () => [customInterpreter.command],
-			buildRunCommand: (interpreter, scriptPath) => `${interpreter} ${quoteForCommandArgument(scriptPath)}`
-		};
+		for (const [extension, descriptor] of configuredLanguages) {
+			descriptors.set(extension, descriptor);
+		}
+
+		return [...descriptors.values()];
+	};
+	loadLanguageSettings();
+	let configuredTargets: ExecutionTarget[] = [];
+	const loadExecutionTargets = (): void => {
+		const { targets, errors } = parseExecutionTargets(getQuickItSetting<unknown>('targets', []));
+		configuredTargets = targets;
+		if (errors.length > 0) {
+			void vscode.window.showWarningMessage(`QuickIt ignored part of the quickIt.targets setting: ${errors.join(' ')}`);
+		}
+	};
+	const getExecutionTargets = (): ExecutionTarget[] => [...LOCAL_EXECUTION_TARGETS, ...configuredTargets];
+	loadExecutionTargets();
+	let configuredEnvironmentProfiles: Record<string, Record<string, string>> = {};
+	const loadEnvironmentProfiles = (): void => {
+		const { profiles, errors } = parseEnvironmentProfiles(getQuickItSetting<unknown>('environmentProfiles', {}));
+		configuredEnvironmentProfiles = profiles;
+		if (errors.length > 0) {
+			void vscode.window.showWarningMessage(`QuickIt ignored part of the quickIt.environmentProfiles setting: ${errors.join(' ')}`);
+		}
 	};
+	loadEnvironmentProfiles();
+
+	const argumentPresetStore = new ArgumentPresetStore(context.globalState);
+	const scriptOrderStore = new ScriptOrderStore(context.globalState);
+	const environmentSecretStore = new EnvironmentSecretStore(context.secrets, context.globalState);
+	let scriptsFilter: string | undefined;
+	const statusBarPinStore = new StatusBarPinStore(context.globalState);
+	const interpreterVersions = new Map<string, Promise<string | undefined>>();
+	const knownInterpreterVersions = new Map<string, string>();
+	const statusBarPinItems = new Map<string, { pin: StatusBarPin; script: ScriptReference; item: vscode.StatusBarItem }>();
+	const statusBarResults = new Map<string, { exitCode: number; timer: NodeJS.Timeout }>();
+	const activeRuns = new Map<string, ActiveRun>();
+	const runningPipelines = new Map<string, { cancelled: boolean }>();
+	const pipelineStepStatuses = new Map<string, Map<string, PipelineStepStatus>>();
+	const scheduledScripts = new Map<string, ScheduledScript>();
+	const triggeredScripts = new Map<string, TriggeredScript>();
+	const triggerTimers = new Map<string, NodeJS.Timeout>();
+	const gitBranches = new Map<string, string | undefined>();
+	let isWatchingGitBranches = false;
+	const scriptsTreeProvider = new ScriptsTreeProvider(getScriptsDirectory, resolveDescriptorForUri, {
+		getArgumentPresets: (uri) => argumentPresetStore.get(uri),
+		isScriptRunning: (uri) => getActiveRunsForScript(uri).length > 0,
+		getQueuedRunCount: (uri) => getActiveRunsForScript(uri).filter((run) => run.queued).length,
+		isPipelineRunning: (uri) => runningPipelines.has(uri.toString()),
+		getPipelineStepStatus: (uri, stepKey) => pipelineStepStatuses.get(uri.toString())?.get(stepKey),
+		getScheduleState: (uri) => ({
+			nextRunAt: scheduledScripts.get(uri.toString())?.nextRunAt,
+			paused: isSchedulePaused(uri),
+			enabled: areSchedulesEnabled()
+		}),
+		isPinnedToStatusBar: (uri) => statusBarPinStore.get(uri) !== undefined,
+		getFavoriteScripts: () => context.globalState.get<string[]>(FAVORITE_SCRIPTS_STATE_KEY, []).map((uri) => vscode.Uri.parse(uri)),
+		getGrouping: () => getScriptGroupingSetting(),
+		getFilter: () => scriptsFilter,
+		getAdditionalLibraries: async () => getAdditionalLibraries(),
+		getInterpreterSelection: (uri, descriptor) => getInterpreterSelection(uri, descriptor),
+		getScriptOrder: (directory) => scriptOrderStore.get(directory)
+	});
+	const runHistoryStore = new RunHistoryStore(context.globalState);
+	const runHistoryTreeProvider = new RunHistoryTreeProvider(runHistoryStore);
+	const scriptsTreeView = vscode.window.createTreeView('quickIt.scripts', {
+		treeDataProvider: scriptsTreeProvider,
+		canSelectMany: true,
+		dragAndDropController: {
+			dragMimeTypes: [],
+			dropMimeTypes: [SCRIPTS_TREE_MIME_TYPE, 'text/uri-list'],
+			handleDrag: (source, dataTransfer) => {
+				dataTransfer.set(SCRIPTS_TREE_MIME_TYPE, new vscode.DataTransferItem(source.filter((item) => !isReadOnlyTreeItem(item))));
+			},
+			handleDrop: (target, dataTransfer) => handleScriptsDrop(target, dataTransfer)
+		}
+	});
+	context.subscriptions.push(
+		scriptsTreeView,
+		vscode.window.registerTreeDataProvider('quickIt.history', runHistoryTreeProvider)
+	);
+	updateEnvironmentProfileDescription();
+	let scriptsDirectoryWatchers: vscode.FileSystemWatcher[] = [];
+	const offeredWorkspaceLibraries = new Set<string>();
+	let outputChannel: vscode.OutputChannel | undefined;
+	let automationRefreshTimer: NodeJS.Timeout | undefined;
+	const scheduleTickTimer = setInterval(() => {
+		void runDueSchedules();
+	}, SCHEDULE_TICK_INTERVAL_MS);
+	context.subscriptions.push(new vscode.Disposable(() => {
+		clearInterval(scheduleTickTimer);
+		clearTimeout(automationRefreshTimer);
+		for (const timer of triggerTimers.values()) {
+			clearTimeout(timer);
+		}
+
+		for (const { timer } of statusBarResults.values()) {
+			clearTimeout(timer);
+		}
+
+		for (const { item } of statusBarPinItems.values()) {
+			item.dispose();
+		}
+	}));
 
-	const scriptsTreeProvider = new ScriptsTreeProvider(getScriptsDirectory, resolveDescriptorForUri);
-	context.subscriptions.push(vscode.window.registerTreeDataProvider('quickIt.scripts', scriptsTreeProvider));
-	let scriptsDirectoryWatcher: vscode.FileSystemWatcher | undefined;
+	context.subscriptions.push(new vscode.Disposable(() => {
+		for (const watcher of scriptsDirectoryWatchers) {
+			watcher.dispose();
+		}
+	}));
 
 	const watchScriptsDirectory = async (): Promise<void> => {
-		if (scriptsDirectoryWatcher) {
-			scriptsDirectoryWatcher.dispose();
-			scriptsDirectoryWatcher = undefined;
+		for (const watcher of scriptsDirectoryWatchers) {
+			watcher.dispose();
 		}
+		scriptsDirectoryWatchers = [];
 
 		try {
-			const scriptsDirectory = await getScriptsDirectory();
-			if (scriptsDirectory.scheme !== 'file') {
-				return;
-			}
+			const refreshScripts = (): void => {
+				scriptsTreeProvider.refresh();
+				requestAutomationRefresh();
+			};
+			for (const library of await getScriptLibraries()) {
+				if (library.uri.scheme !== 'file') {
+					continue;
+				}
 
-			const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(scriptsDirectory.fsPath, '*'));
-			const refreshTree = (): void => scriptsTreeProvider.refresh();
-			watcher.onDidCreate(refreshTree);
-			watcher.onDidChange(refreshTree);
-			watcher.onDidDelete(refreshTree);
-			scriptsDirectoryWatcher = watcher;
-			context.subscriptions.push(watcher);
+				const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(library.uri.fsPath, '**/*'));
+				watcher.onDidCreate(refreshScripts);
+				watcher.onDidChange(refreshScripts);
+				watcher.onDidDelete(refreshScripts);
+				scriptsDirectoryWatchers.push(watcher);
+			}
 		} catch (error) {
 			console.error(`[QuickIt] Failed to watch scripts directory: ${toErrorMessage(error)}`);
 		}
 	};
 
-	const addScriptCommand = vscode.commands.registerCommand('quick-it.addScript', async () => {
+	const addScriptCommand = vscode.commands.registerCommand('quick-it.addScript', async (item?: QuickItTreeItem) => {
 		try {
 			const selectedScriptType = await vscode.window.showQuickPick(
-				BUILTIN_SCRIPT_DESCRIPTORS.map((descriptor) => ({
+				getScriptDescriptors().map((descriptor) => ({
 					label: descriptor.label,
 					detail: descriptor.extension,
 					description: descriptor.languageId,
@@ -262,6 +1743,23 @@ export function activate(context: vscode.ExtensionContext): QuickItApi {
 				return;
 			}
 
+			const templates = await listScriptTemplates(getTemplatesDirectory(), selectedScriptType.descriptor.extension);
+			let templateUri: vscode.Uri | undefined;
+			if (templates.length > 0) {
+				const selectedTemplate = await vscode.window.showQuickPick(
+					[
+						{ label: 'Blank', description: 'Start with an empty script', uri: undefined },
+						...templates.map((template) => ({ label: template.name, description: path.basename(template.uri.fsPath), uri: template.uri }))
+					],
+					{ title: `Select a ${selectedScriptType.descriptor.label} template` }
+				);
+				if (!selectedTemplate) {
+					return;
+				}
+
+				templateUri = selectedTemplate.uri;
+			}
+
 			const scriptNameInput = await vscode.window.showInputBox({
 				title: 'QuickIt: Script Name',
 				prompt: `Enter a name for your ${selectedScriptType.descriptor.label} script`,
@@ -272,11 +1770,11 @@ export function activate(context: vscode.ExtensionContext): QuickItApi {
 				return;
 			}
 
-			const scriptsDirectory = await getScriptsDirectory();
-			await vscode.workspace.fs.createDirectory(scriptsDirectory);
+			const targetDirectory = await resolveTargetDirectory(item);
+			await vscode.workspace.fs.createDirectory(targetDirectory);
 
 			const scriptFileName = normalizeScriptFileName(scriptNameInput, selectedScriptType.descriptor.extension);
-			const scriptUri = vscode.Uri.joinPath(scriptsDirectory, scriptFileName);
+			const scriptUri = vscode.Uri.joinPath(targetDirectory, scriptFileName);
 			if (await uriExists(scriptUri)) {
 				const overwriteSelection = await vscode.window.showWarningMessage(
 					`A script named "${scriptFileName}" already exists. Overwrite it?`,
@@ -288,10 +1786,15 @@ export function activate(context: vscode.ExtensionContext): QuickItApi {
 				}
 			}
 
-			await vscode.workspace.fs.writeFile(
-				scriptUri,
-				Buffer.from(getInitialTemplateForExtension(selectedScriptType.descriptor.extension), 'utf8')
-			);
+			const scriptContent = templateUri
+				? fillTemplatePlaceholders(Buffer.from(await vscode.workspace.fs.readFile(templateUri)).toString('utf8'), {
+					name: stripScriptExtension(scriptFileName),
+					fileName: scriptFileName,
+					date: formatLocalDate(new Date()),
+					author: getQuickItSettingValue('templates.author') ?? getUserName()
+				})
+				: selectedScriptType.descriptor.initialTemplate ?? getInitialTemplateForExtension(selectedScriptType.descriptor.extension);
+			await vscode.workspace.fs.writeFile(scriptUri, Buffer.from(scriptContent, 'utf8'));
 			scriptsTreeProvider.refresh();
 
 			const scriptDocument = await vscode.workspace.openTextDocument(scriptUri);
@@ -302,221 +1805,3156 @@ export function activate(context: vscode.ExtensionContext): QuickItApi {
 		}
 	});
 
-	const openSettingsCommand = vscode.commands.registerCommand('quick-it.openSettings', async () => {
-		await vscode.commands.executeCommand('workbench.action.openSettings', 'quickIt');
-	});
-
-	const runScriptCommand = vscode.commands.registerCommand('quick-it.runScript', async (item?: ScriptItem) => {
+	const addFolderCommand = vscode.commands.registerCommand('quick-it.addFolder', async (item?: QuickItTreeItem) => {
 		try {
-			if (!item) {
-				void vscode.window.showErrorMessage('No QuickIt script selected.');
-				return;
-			}
-
-			const interpreterCommand = await resolveInterpreterCommand(item.descriptor);
-			if (!interpreterCommand) {
-				void vscode.window.showErrorMessage(`No interpreter found for ${item.descriptor.label}. Configure one in QuickIt settings.`);
+			const folderNameInput = await vscode.window.showInputBox({
+				title: 'QuickIt: Folder Name',
+				prompt: 'Enter a name for the new folder',
+				placeHolder: 'my-folder',
+				validateInput: validateFolderNameInput
+			});
+			if (folderNameInput === undefined) {
 				return;
 			}
 
-			if (!(await isCommandAvailable(interpreterCommand))) {
-				void vscode.window.showErrorMessage(`Interpreter "${interpreterCommand}" was not found on PATH.`);
+			const folderName = folderNameInput.trim();
+			const folderUri = vscode.Uri.joinPath(await resolveTargetDirectory(item), folderName);
+			if (await uriExists(folderUri)) {
+				void vscode.window.showWarningMessage(`A folder named "${folderName}" already exists.`);
 				return;
 			}
 
-			const scriptName = path.basename(item.uri.fsPath);
-			void vscode.window.showInformationMessage(`QuickIt: Executing "${scriptName}"...`);
+			await vscode.workspace.fs.createDirectory(folderUri);
+			scriptsTreeProvider.refresh();
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to create the folder', error);
+		}
+	});
 
-			const runId = createRunId();
-			const task = createQuickItShellTask(
-				{ type: 'quick-it', runId },
-				`QuickIt: ${scriptName}`,
-				item.descriptor.buildRunCommand(interpreterCommand, item.uri.fsPath)
-			);
+	const openSettingsCommand = vscode.commands.registerCommand('quick-it.openSettings', async () => {
+		await vscode.commands.executeCommand('workbench.action.openSettings', 'quickIt');
+	});
 
-			const exitCode = await executeQuickItTask(task, runId);
-			if (exitCode === undefined || exitCode === 0) {
-				void vscode.window.showInformationMessage(`QuickIt: Finished "${scriptName}".`);
+	const runScriptCommand = vscode.commands.registerCommand('quick-it.runScript', async (item?: ScriptReference) => {
+		if (!item) {
+			await runScriptByName();
+			return;
+		}
+
+		await runScript(item);
+	});
+
+	const runScriptByNameCommand = vscode.commands.registerCommand(
+		'quick-it.runScriptByName',
+		async (target?: string | { name?: string; args?: string | string[] }) => {
+			let scriptArguments: string[] | undefined;
+			try {
+				if (typeof target === 'object' && target.args !== undefined) {
+					scriptArguments = typeof target.args === 'string' ? parseCommandArguments(target.args) : target.args.map(String);
+				}
+			} catch (error) {
+				notifyQuickItError('QuickIt could not read the script arguments', error);
+				return;
+			}
+
+			await runScriptByName(typeof target === 'string' ? target : target?.name, scriptArguments);
+		}
+	);
+
+	const runScriptWithArgumentsCommand = vscode.commands.registerCommand('quick-it.runScriptWithArguments', async (item?: ScriptItem) => {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt script selected.');
 				return;
 			}
 
-			void vscode.window.showWarningMessage(`QuickIt: Finished "${scriptName}" (exit code ${exitCode}).`);
+			const presets = argumentPresetStore.get(item.uri);
+			let scriptArguments: readonly string[] | undefined;
+			if (presets.length > 0) {
+				const enterArgumentsLabel = '$(edit) Enter arguments...';
+				const selection = await vscode.window.showQuickPick(
+					[
+						{ label: enterArgumentsLabel, preset: undefined },
+						...presets.map((preset) => ({
+							label: preset.name,
+							description: formatArgumentsForDisplay(preset.arguments),
+							preset
+						}))
+					],
+					{ title: `Run "${path.basename(item.uri.fsPath)}" with arguments` }
+				);
+				if (!selection) {
+					return;
+				}
+
+				scriptArguments = selection.preset?.arguments;
+			}
+
+			if (!scriptArguments) {
+				scriptArguments = await promptForArguments(item);
+				if (!scriptArguments) {
+					return;
+				}
+			}
+
+			await runScript(item, { scriptArguments });
 		} catch (error) {
 			notifyQuickItError('QuickIt failed to run the selected script', error);
 		}
 	});
 
-	const editScriptCommand = vscode.commands.registerCommand('quick-it.editScript', async (item?: ScriptItem) => {
+	const runScriptInDirectoryCommand = vscode.commands.registerCommand('quick-it.runScriptInDirectory', async (item?: ScriptItem) => {
 		try {
 			if (!item) {
 				void vscode.window.showErrorMessage('No QuickIt script selected.');
 				return;
 			}
 
-			const document = await vscode.workspace.openTextDocument(item.uri);
-			await vscode.window.showTextDocument(document);
+			const selection = await pickWorkingDirectory();
+			if (!selection) {
+				return;
+			}
+
+			await runScript(item, { workingDirectory: selection });
 		} catch (error) {
-			notifyQuickItError('QuickIt failed to open the selected script', error);
+			notifyQuickItError('QuickIt failed to run the selected script', error);
+		}
+	});
+
+	const selectEnvironmentProfileCommand = vscode.commands.registerCommand('quick-it.selectEnvironmentProfile', async () => {
+		try {
+			await selectEnvironmentProfile();
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to select the environment profile', error);
+		}
+	});
+
+	const manageEnvironmentSecretsCommand = vscode.commands.registerCommand('quick-it.manageEnvironmentSecrets', async () => {
+		try {
+			await manageEnvironmentSecrets();
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to update the environment secrets', error);
+		}
+	});
+
+	const runScriptOnSelectionCommand = vscode.commands.registerCommand('quick-it.runScriptOnSelection', async () => {
+		try {
+			await runScriptOnEditorText();
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to run the script on the editor text', error);
 		}
 	});
 
-	const removeScriptCommand = vscode.commands.registerCommand('quick-it.removeScript', async (item?: ScriptItem) => {
+	const runScriptOnTargetCommand = vscode.commands.registerCommand('quick-it.runScriptOnTarget', async (item?: ScriptItem) => {
 		try {
 			if (!item) {
 				void vscode.window.showErrorMessage('No QuickIt script selected.');
 				return;
 			}
 
-			const scriptName = path.basename(item.uri.fsPath);
-			const confirmation = await vscode.window.showWarningMessage(
-				`Remove "${scriptName}" from QuickIt?`,
-				{ modal: true },
-				'Remove'
+			const selection = await vscode.window.showQuickPick(
+				getExecutionTargets().map((target) => ({ label: target.name, description: describeExecutionTarget(target), target })),
+				{
+					title: `QuickIt: Run "${path.basename(item.uri.fsPath)}" On`,
+					placeHolder: 'Select where to run the script'
+				}
 			);
-			if (confirmation !== 'Remove') {
+			if (!selection) {
 				return;
 			}
 
-			if (!(await uriExists(item.uri))) {
-				void vscode.window.showWarningMessage(`"${scriptName}" was already removed.`);
-				scriptsTreeProvider.refresh();
+			await runScript(item, { target: selection.target.name });
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to run the selected script', error);
+		}
+	});
+
+	const stopScriptCommand = vscode.commands.registerCommand('quick-it.stopScript', async (item?: ScriptItem) => {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt script selected.');
 				return;
 			}
 
-			await vscode.workspace.fs.delete(item.uri, { useTrash: true });
-			scriptsTreeProvider.refresh();
+			const runs = getActiveRunsForScript(item.uri);
+			if (runs.length === 0) {
+				void vscode.window.showInformationMessage(`"${path.basename(item.uri.fsPath)}" is not running.`);
+				return;
+			}
+
+			await stopRuns(runs);
 		} catch (error) {
-			notifyQuickItError('QuickIt failed to remove the selected script', error);
+			notifyQuickItError('QuickIt failed to stop the script', error);
 		}
 	});
 
-	const saveSubscription = vscode.workspace.onDidSaveTextDocument((document) => {
-		void handleDocumentSaved(document);
-	});
+	const restartScriptCommand = vscode.commands.registerCommand('quick-it.restartScript', async (item?: ScriptItem) => {
+		if (!item) {
+			void vscode.window.showErrorMessage('No QuickIt script selected.');
+			return;
+		}
 
-	const renameSubscription = vscode.workspace.onDidRenameFiles(() => {
-		scriptsTreeProvider.refresh();
-	});
+		const runs = getActiveRunsForScript(item.uri);
+		const latestRun = runs[runs.length - 1];
+		try {
+			await stopRuns(runs);
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to stop the script', error);
+			return;
+		}
 
-	const createSubscription = vscode.workspace.onDidCreateFiles(() => {
-		scriptsTreeProvider.refresh();
+		await runScript(latestRun?.script ?? item, latestRun?.replayOptions ?? {});
 	});
 
-	const deleteSubscription = vscode.workspace.onDidDeleteFiles(() => {
-		scriptsTreeProvider.refresh();
+	const stopAllScriptsCommand = vscode.commands.registerCommand('quick-it.stopAllScripts', async () => {
+		try {
+			if (activeRuns.size === 0) {
+				void vscode.window.showInformationMessage('No QuickIt scripts are running.');
+				return;
+			}
+
+			await stopRuns([...activeRuns.values()]);
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to stop the running scripts', error);
+		}
 	});
 
-	const configChangeSubscription = vscode.workspace.onDidChangeConfiguration((event) => {
-		if (!event.affectsConfiguration('quickIt')) {
+	const runArgumentPresetCommand = vscode.commands.registerCommand('quick-it.runArgumentPreset', async (item?: ArgumentPresetItem) => {
+		if (!item) {
+			void vscode.window.showErrorMessage('No QuickIt argument preset selected.');
 			return;
 		}
 
-		scriptsTreeProvider.refresh();
-		void watchScriptsDirectory();
+		await runScript(item.script, { scriptArguments: item.preset.arguments });
 	});
 
-	context.subscriptions.push(
-		addScriptCommand,
-		openSettingsCommand,
-		runScriptCommand,
-		editScriptCommand,
-		removeScriptCommand,
-		saveSubscription,
-		renameSubscription,
-		createSubscription,
-		deleteSubscription,
-		configChangeSubscription
-	);
+	const addArgumentPresetCommand = vscode.commands.registerCommand('quick-it.addArgumentPreset', async (item?: ScriptItem) => {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt script selected.');
+				return;
+			}
 
-	void ensureScriptsDirectoryExists(getScriptsDirectory);
-	void watchScriptsDirectory();
-	void showSafetyNoticeOnce(context);
+			const scriptArguments = await promptForArguments(item);
+			if (!scriptArguments) {
+				return;
+			}
 
-	const handleDocumentSaved = async (document: vscode.TextDocument): Promise<void> => {
+			const existingNames = new Set(argumentPresetStore.get(item.uri).map((preset) => preset.name));
+			const presetNameInput = await vscode.window.showInputBox({
+				title: 'QuickIt: Preset Name',
+				prompt: `Name the argument preset for "${path.basename(item.uri.fsPath)}"`,
+				value: formatArgumentsForDisplay(scriptArguments),
+				validateInput: (value) => value.trim() ? undefined : 'Preset name is required.'
+			});
+			if (presetNameInput === undefined) {
+				return;
+			}
+
+			const presetName = presetNameInput.trim();
+			if (existingNames.has(presetName)) {
+				const overwriteSelection = await vscode.window.showWarningMessage(
+					`A preset named "${presetName}" already exists. Overwrite it?`,
+					{ modal: true },
+					'Overwrite'
+				);
+				if (overwriteSelection !== 'Overwrite') {
+					return;
+				}
+			}
+
+			await argumentPresetStore.save(item.uri, { name: presetName, arguments: scriptArguments });
+			scriptsTreeProvider.refresh();
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to save the argument preset', error);
+		}
+	});
+
+	const removeArgumentPresetCommand = vscode.commands.registerCommand('quick-it.removeArgumentPreset', async (item?: ArgumentPresetItem) => {
 		try {
-			if (await isInScriptsDirectory(document.uri, getScriptsDirectory)) {
-				scriptsTreeProvider.refresh();
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt argument preset selected.');
+				return;
 			}
+
+			await argumentPresetStore.remove(item.uri, item.preset.name);
+			scriptsTreeProvider.refresh();
 		} catch (error) {
-			console.error(`[QuickIt] Failed to refresh scripts after save: ${toErrorMessage(error)}`);
+			notifyQuickItError('QuickIt failed to remove the argument preset', error);
 		}
-	};
+	});
 
-	const api: QuickItApi = {
-		registerInterpreter(extension: string, command: string, label?: string): vscode.Disposable {
-			const normalizedExtension = normalizeExtension(extension);
-			if (!normalizedExtension) {
-				throw new Error('Extension must be provided.');
+	const rerunHistoryEntryCommand = vscode.commands.registerCommand('quick-it.rerunHistoryEntry', async (item?: RunHistoryItem) => {
+		if (!item) {
+			void vscode.window.showErrorMessage('No QuickIt history entry selected.');
+			return;
+		}
+
+		const scriptUri = vscode.Uri.parse(item.entry.scriptUri);
+		const descriptor = resolveDescriptorForUri(scriptUri);
+		if (!descriptor || !(await uriExists(scriptUri))) {
+			void vscode.window.showErrorMessage(`"${item.entry.scriptName}" no longer exists in QuickIt.`);
+			return;
+		}
+
+		await runScript(
+			{ uri: scriptUri, descriptor },
+			{
+				scriptArguments: item.entry.arguments,
+				environment: item.entry.environment,
+				workingDirectory: item.entry.cwd ? { mode: 'custom', path: item.entry.cwd } : undefined,
+				substituteVariables: false,
+				target: item.entry.target
 			}
+		);
+	});
 
-			const normalizedCommand = command.trim();
-			if (!normalizedCommand) {
-				throw new Error('Interpreter command must be provided.');
+	const openHistoryScriptCommand = vscode.commands.registerCommand('quick-it.openHistoryScript', async (item?: RunHistoryItem) => {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt history entry selected.');
+				return;
 			}
 
-			if (BUILTIN_BY_EXTENSION.has(normalizedExtension)) {
-				throw new Error(`"${normalizedExtension}" is already handled by a built-in QuickIt interpreter.`);
+			const scriptUri = vscode.Uri.parse(item.entry.scriptUri);
+			if (!(await uriExists(scriptUri))) {
+				void vscode.window.showErrorMessage(`"${item.entry.scriptName}" no longer exists in QuickIt.`);
+				return;
 			}
 
-			customInterpreters.set(normalizedExtension, { command: normalizedCommand, label });
-			scriptsTreeProvider.refresh();
+			const document = await vscode.workspace.openTextDocument(scriptUri);
+			await vscode.window.showTextDocument(document);
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to open the script', error);
+		}
+	});
 
-			return new vscode.Disposable(() => {
-				const currentValue = customInterpreters.get(normalizedExtension);
-				if (!currentValue || currentValue.command !== normalizedCommand) {
-					return;
-				}
+	const openRunLogCommand = vscode.commands.registerCommand('quick-it.openRunLog', async (item?: RunHistoryItem) => {
+		try {
+			if (!item?.entry.logPath) {
+				void vscode.window.showErrorMessage('No captured QuickIt run selected.');
+				return;
+			}
 
-				customInterpreters.delete(normalizedExtension);
-				scriptsTreeProvider.refresh();
-			});
+			await openRunLog(item.entry.logPath);
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to open the run log', error);
 		}
-	};
+	});
 
-	return api;
+	const showScriptLogsCommand = vscode.commands.registerCommand('quick-it.showScriptLogs', async (item?: ScriptItem) => {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt script selected.');
+				return;
+			}
 
-	async function resolveInterpreterCommand(descriptor: ScriptDescriptor): Promise<string | undefined> {
-		if (descriptor.interpreterSetting) {
-			const configuredValue = getQuickItSettingValue(descriptor.interpreterSetting);
-			if (configuredValue) {
-				return configuredValue;
+			const scriptUri = item.uri.toString();
+			const loggedRuns = runHistoryStore.getAll().filter((entry) => entry.scriptUri === scriptUri && entry.logPath);
+			if (loggedRuns.length === 0) {
+				void vscode.window.showInformationMessage(
+					`No captured runs for "${path.basename(item.uri.fsPath)}". Enable quickIt.output.capture to keep run logs.`
+				);
+				return;
 			}
-		}
 
-		for (const candidate of descriptor.getDefaultInterpreters()) {
-			if (await isCommandAvailable(candidate)) {
-				return candidate;
+			const selection = await vscode.window.showQuickPick(
+				loggedRuns.map((entry) => ({
+					label: new Date(entry.startedAt).toLocaleString(),
+					description: `${formatExitCode(entry.exitCode)} · ${formatDuration(entry.durationMs)}`,
+					detail: entry.arguments.length > 0 ? formatArgumentsForDisplay(entry.arguments) : undefined,
+					entry
+				})),
+				{ title: `QuickIt: Logs for "${path.basename(item.uri.fsPath)}"` }
+			);
+			if (selection?.entry.logPath) {
+				await openRunLog(selection.entry.logPath);
 			}
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to open the run logs', error);
 		}
+	});
 
-		return undefined;
-	}
-}
+	const clearHistoryCommand = vscode.commands.registerCommand('quick-it.clearHistory', async () => {
+		try {
+			const confirmation = await vscode.window.showWarningMessage(
+				'Clear the QuickIt run history?',
+				{ modal: true },
+				'Clear'
+			);
+			if (confirmation !== 'Clear') {
+				return;
+			}
 
-export function deactivate(): void {
-}
+			await runHistoryStore.clear();
+			runHistoryTreeProvider.refresh();
+			await pruneRunLogs();
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to clear the run history', error);
+		}
+	});
 
-async function showSafetyNoticeOnce(context: vscode.ExtensionContext): Promise<void> {
-	const hasShownNotice = context.globalState.get<boolean>(SAFETY_NOTICE_STATE_KEY);
-	if (hasShownNotice) {
-		return;
-	}
+	const addPipelineCommand = vscode.commands.registerCommand('quick-it.addPipeline', async (item?: QuickItTreeItem) => {
+		try {
+			const pipelineNameInput = await vscode.window.showInputBox({
+				title: 'QuickIt: Pipeline Name',
+				prompt: 'Enter a name for the new pipeline',
+				placeHolder: `build-and-seed${PIPELINE_FILE_SUFFIX}`,
+				validateInput: validatePipelineNameInput
+			});
+			if (pipelineNameInput === undefined) {
+				return;
+			}
 
-	void vscode.window.showWarningMessage('QuickIt runs local scripts. Only run scripts and interpreters you trust.');
-	await context.globalState.update(SAFETY_NOTICE_STATE_KEY, true);
-}
+			const pipelineFileName = `${stripPipelineFileSuffix(pipelineNameInput.trim())}${PIPELINE_FILE_SUFFIX}`;
+			const targetDirectory = await resolveTargetDirectory(item);
+			await vscode.workspace.fs.createDirectory(targetDirectory);
+			const pipelineUri = vscode.Uri.joinPath(targetDirectory, pipelineFileName);
+			if (await uriExists(pipelineUri)) {
+				const overwriteSelection = await vscode.window.showWarningMessage(
+					`A pipeline named "${pipelineFileName}" already exists. Overwrite it?`,
+					{ modal: true },
+					'Overwrite'
+				);
+				if (overwriteSelection !== 'Overwrite') {
+					return;
+				}
+			}
 
-async function resolveScriptsDirectory(
-	context: vscode.ExtensionContext,
-	getQuickItSettingValue: (settingPath: string) => string | undefined
-): Promise<vscode.Uri> {
-	const configuredDirectory = getQuickItSettingValue('scriptDirectory');
-	if (configuredDirectory) {
-		return vscode.Uri.file(resolveDirectoryPath(configuredDirectory));
-	}
+			await vscode.workspace.fs.writeFile(pipelineUri, Buffer.from(getInitialPipelineTemplate(), 'utf8'));
+			scriptsTreeProvider.refresh();
 
-	return vscode.Uri.joinPath(context.globalStorageUri, 'scripts');
-}
+			const pipelineDocument = await vscode.workspace.openTextDocument(pipelineUri);
+			await vscode.window.showTextDocument(pipelineDocument);
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to create the pipeline', error);
+		}
+	});
+
+	const runPipelineCommand = vscode.commands.registerCommand('quick-it.runPipeline', async (item?: PipelineItem) => {
+		if (!item) {
+			void vscode.window.showErrorMessage('No QuickIt pipeline selected.');
+			return;
+		}
+
+		await runPipeline(item.uri);
+	});
+
+	const stopPipelineCommand = vscode.commands.registerCommand('quick-it.stopPipeline', async (item?: PipelineItem) => {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt pipeline selected.');
+				return;
+			}
+
+			const pipelineKey = item.uri.toString();
+			const pipelineRun = runningPipelines.get(pipelineKey);
+			if (!pipelineRun) {
+				void vscode.window.showInformationMessage(`"${path.basename(item.uri.fsPath)}" is not running.`);
+				return;
+			}
+
+			pipelineRun.cancelled = true;
+			await stopRuns([...activeRuns.values()].filter((run) => run.pipelineUri === pipelineKey));
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to stop the pipeline', error);
+		}
+	});
+
+	const pauseScheduleCommand = vscode.commands.registerCommand('quick-it.pauseSchedule', async (item?: ScriptItem) => {
+		await setSchedulePausedForItem(item, true);
+	});
+
+	const resumeScheduleCommand = vscode.commands.registerCommand('quick-it.resumeSchedule', async (item?: ScriptItem) => {
+		await setSchedulePausedForItem(item, false);
+	});
+
+	const toggleSchedulesCommand = vscode.commands.registerCommand('quick-it.toggleSchedules', async () => {
+		try {
+			const enabled = !areSchedulesEnabled();
+			await vscode.workspace.getConfiguration('quickIt').update('schedules.enabled', enabled, vscode.ConfigurationTarget.Global);
+			void vscode.window.showInformationMessage(
+				enabled ? 'QuickIt: Scheduled runs are turned on.' : 'QuickIt: Scheduled runs are turned off.'
+			);
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to toggle scheduled runs', error);
+		}
+	});
+
+	const pinToStatusBarCommand = vscode.commands.registerCommand('quick-it.pinToStatusBar', async (item?: ScriptItem) => {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt script selected.');
+				return;
+			}
+
+			const scriptName = path.basename(item.uri.fsPath);
+			const existingPin = statusBarPinStore.get(item.uri);
+			const text = await vscode.window.showInputBox({
+				title: 'QuickIt: Status Bar Text',
+				prompt: `Text shown on the status bar button for "${scriptName}". Leave empty to show only the icon.`,
+				value: existingPin?.text ?? path.basename(scriptName, path.extname(scriptName))
+			});
+			if (text === undefined) {
+				return;
+			}
+
+			const icon = await vscode.window.showInputBox({
+				title: 'QuickIt: Status Bar Icon',
+				prompt: 'Codicon name for the button, for example play, rocket or tools.',
+				value: existingPin?.icon ?? 'play',
+				validateInput: (value) => /^[a-z0-9-]+$/.test(value.trim()) ? undefined : 'Enter a codicon name such as "play".'
+			});
+			if (icon === undefined) {
+				return;
+			}
+
+			await statusBarPinStore.save({ scriptUri: item.uri.toString(), text: text.trim(), icon: icon.trim() });
+			scriptsTreeProvider.refresh();
+			await refreshStatusBarPins();
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to pin the script to the status bar', error);
+		}
+	});
+
+	const unpinFromStatusBarCommand = vscode.commands.registerCommand('quick-it.unpinFromStatusBar', async (item?: ScriptItem) => {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt script selected.');
+				return;
+			}
+
+			await statusBarPinStore.remove(item.uri);
+			scriptsTreeProvider.refresh();
+			await refreshStatusBarPins();
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to unpin the script from the status bar', error);
+		}
+	});
+
+	const addFavoriteCommand = vscode.commands.registerCommand('quick-it.addFavorite', async (item?: ScriptItem) => {
+		await setFavoriteForItem(item, true);
+	});
+
+	const removeFavoriteCommand = vscode.commands.registerCommand('quick-it.removeFavorite', async (item?: ScriptItem) => {
+		await setFavoriteForItem(item, false);
+	});
+
+	const filterScriptsCommand = vscode.commands.registerCommand('quick-it.filterScripts', async () => {
+		const filter = await vscode.window.showInputBox({
+			title: 'QuickIt: Filter Scripts',
+			prompt: 'Match script names, descriptions, tags and content. Use #tag to match a tag exactly. Leave empty to clear.',
+			value: scriptsFilter
+		});
+		if (filter !== undefined) {
+			setScriptsFilter(filter);
+		}
+	});
+
+	const clearScriptsFilterCommand = vscode.commands.registerCommand('quick-it.clearScriptsFilter', () => {
+		setScriptsFilter(undefined);
+	});
+
+	const groupScriptsCommand = vscode.commands.registerCommand('quick-it.groupScripts', async () => {
+		try {
+			const currentGrouping = getScriptGroupingSetting();
+			const selection = await vscode.window.showQuickPick(
+				SCRIPT_GROUPINGS.map((entry) => ({
+					label: entry.label,
+					description: entry.grouping === currentGrouping ? 'current' : undefined,
+					detail: entry.detail,
+					grouping: entry.grouping
+				})),
+				{ title: 'QuickIt: Group Scripts By' }
+			);
+			if (!selection) {
+				return;
+			}
+
+			await vscode.workspace.getConfiguration('quickIt').update('scripts.groupBy', selection.grouping, vscode.ConfigurationTarget.Global);
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to change script grouping', error);
+		}
+	});
+
+	const manageWorkspaceLibrariesCommand = vscode.commands.registerCommand('quick-it.manageWorkspaceLibraries', async () => {
+		try {
+			if (!vscode.workspace.isTrusted) {
+				void vscode.window.showWarningMessage('QuickIt only shows workspace script folders in trusted workspaces.');
+				return;
+			}
+
+			const approvedLibraries = new Set(getApprovedWorkspaceLibraries());
+			const candidates = [];
+			for (const library of getWorkspaceLibraryCandidates()) {
+				if (await uriExists(library.uri)) {
+					candidates.push({
+						label: library.name,
+						description: library.uri.fsPath,
+						picked: approvedLibraries.has(library.uri.toString()),
+						library
+					});
+				}
+			}
+
+			if (candidates.length === 0) {
+				void vscode.window.showInformationMessage(`No workspace folder has a ${WORKSPACE_LIBRARY_FOLDER_NAME} script folder.`);
+				return;
+			}
+
+			const selection = await vscode.window.showQuickPick(candidates, {
+				title: 'QuickIt: Workspace Script Folders',
+				placeHolder: 'Select the workspace script folders QuickIt may show and run',
+				canPickMany: true
+			});
+			if (!selection) {
+				return;
+			}
+
+			const candidateKeys = new Set(candidates.map(({ library }) => library.uri.toString()));
+			await context.globalState.update(APPROVED_WORKSPACE_LIBRARIES_STATE_KEY, [
+				...getApprovedWorkspaceLibraries().filter((libraryKey) => !candidateKeys.has(libraryKey)),
+				...selection.map(({ library }) => library.uri.toString())
+			]);
+			refreshScriptLibraries();
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to update workspace script folders', error);
+		}
+	});
+
+	const exportScriptsCommand = vscode.commands.registerCommand(
+		'quick-it.exportScripts',
+		async (item?: QuickItTreeItem, selectedItems?: readonly QuickItTreeItem[]) => {
+			try {
+				let fileUris: vscode.Uri[];
+				const items = selectedItems && selectedItems.length > 0 ? selectedItems : item ? [item] : [];
+				if (items.length > 0) {
+					fileUris = [];
+					for (const selectedItem of items) {
+						if (selectedItem instanceof ScriptItem || selectedItem instanceof PipelineItem) {
+							fileUris.push(selectedItem.uri);
+						} else if (selectedItem instanceof FolderItem || selectedItem instanceof LibraryItem) {
+							fileUris.push(...(await listScriptFiles(selectedItem.uri, getNestedLibraryRoots(await getScriptLibraries(), { uri: selectedItem.uri })))
+								.filter((uri) => isPipelineFileName(uri.fsPath) || resolveDescriptorForUri(uri)));
+						}
+					}
+				} else {
+					const selection = await vscode.window.showQuickPick(
+						(await listScripts()).map((script) => ({ label: script.scriptPath, description: script.descriptor.label, uri: script.uri })),
+						{ title: 'QuickIt: Select Scripts to Export', canPickMany: true }
+					);
+					if (!selection) {
+						return;
+					}
+
+					fileUris = selection.map(({ uri }) => uri);
+				}
+
+				const uniqueUris = [...new Map(fileUris.map((uri) => [uri.toString(), uri])).values()];
+				if (uniqueUris.length === 0) {
+					void vscode.window.showWarningMessage('No QuickIt scripts selected to export.');
+					return;
+				}
+
+				const libraries = await getScriptLibraries();
+				const scripts: ScriptBundleEntry[] = [];
+				const interpreters: Record<string, string> = {};
+				const languageInterpreters: Record<string, string> = {};
+				const scriptInterpreters = context.globalState.get<Record<string, string>>(SCRIPT_INTERPRETERS_STATE_KEY, {});
+				const selectedLanguageInterpreters = context.globalState.get<Record<string, string>>(LANGUAGE_INTERPRETERS_STATE_KEY, {});
+				for (const uri of uniqueUris) {
+					const library = findLibraryForUri(libraries, uri);
+					const relativePath = library
+						? path.relative(library.uri.fsPath, uri.fsPath).split(path.sep).join('/')
+						: path.basename(uri.fsPath);
+					const bundlePath = scripts.some((script) => script.path === relativePath) && library
+						? `${library.name}/${relativePath}`
+						: relativePath;
+					const scriptInterpreter = scriptInterpreters[uri.toString()];
+					scripts.push({
+						path: bundlePath,
+						content: Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'),
+						argumentPresets: argumentPresetStore.get(uri),
+						...(scriptInterpreter ? { interpreter: scriptInterpreter } : {})
+					});
+
+					const descriptor = resolveDescriptorForUri(uri);
+					const interpreterSetting = descriptor?.interpreterSetting;
+					const interpreterCommand = interpreterSetting ? getQuickItSettingValue(interpreterSetting) : undefined;
+					if (interpreterSetting && interpreterCommand) {
+						interpreters[interpreterSetting] = interpreterCommand;
+					} else if (descriptor && !interpreterSetting && selectedLanguageInterpreters[descriptor.extension]) {
+						languageInterpreters[descriptor.extension] = selectedLanguageInterpreters[descriptor.extension];
+					}
+				}
+
+				const bundleUri = await vscode.window.showSaveDialog({
+					title: 'QuickIt: Export Scripts',
+					defaultUri: vscode.Uri.file(path.join(os.homedir(), 'quickit-scripts.json')),
+					filters: { 'QuickIt Bundle': ['json'] }
+				});
+				if (!bundleUri) {
+					return;
+				}
+
+				await vscode.workspace.fs.writeFile(bundleUri, Buffer.from(serializeScriptBundle({ scripts, interpreters, languageInterpreters }), 'utf8'));
+				void vscode.window.showInformationMessage(
+					`QuickIt: Exported ${scripts.length} ${scripts.length === 1 ? 'script' : 'scripts'} to ${path.basename(bundleUri.fsPath)}.`
+				);
+			} catch (error) {
+				notifyQuickItError('QuickIt failed to export scripts', error);
+			}
+		}
+	);
+
+	const importScriptsCommand = vscode.commands.registerCommand('quick-it.importScripts', async (item?: QuickItTreeItem) => {
+		try {
+			const targetDirectory = await resolveTargetDirectory(item);
+			const [bundleUri] = await vscode.window.showOpenDialog({
+				title: 'QuickIt: Import Scripts',
+				canSelectMany: false,
+				filters: { 'QuickIt Bundle': ['json'] }
+			}) ?? [];
+			if (!bundleUri) {
+				return;
+			}
+
+			const bundle = parseScriptBundle(Buffer.from(await vscode.workspace.fs.readFile(bundleUri)).toString('utf8'));
+			if (bundle.scripts.length === 0) {
+				void vscode.window.showWarningMessage('The bundle has no scripts to import.');
+				return;
+			}
+
+			const unsupportedPaths = bundle.scripts
+				.filter((entry) => !isPipelineFileName(entry.path) && !resolveDescriptorForUri(vscode.Uri.joinPath(targetDirectory, ...entry.path.split('/'))))
+				.map((entry) => entry.path);
+			const supportedScripts = bundle.scripts.filter((entry) => !unsupportedPaths.includes(entry.path));
+			if (supportedScripts.length === 0) {
+				void vscode.window.showWarningMessage(`The bundle has no scripts of a supported file type to import: ${unsupportedPaths.join(', ')}.`);
+				return;
+			}
+
+			const previewItems = await Promise.all(supportedScripts.map(async (entry) => {
+				const uri = vscode.Uri.joinPath(targetDirectory, ...entry.path.split('/'));
+				const descriptor = resolveDescriptorForUri(uri);
+				const metadata = descriptor
+					? parseScriptMetadata(entry.content.slice(0, METADATA_READ_LIMIT_BYTES), descriptor.commentPrefix ? [descriptor.commentPrefix] : ['#', '//'])
+					: EMPTY_SCRIPT_METADATA;
+				return {
+					label: entry.path,
+					description: [
+						isPipelineFileName(entry.path) ? 'Pipeline' : descriptor?.label,
+						...(await uriExists(uri) ? ['exists'] : [])
+					].join(' · '),
+					detail: metadata.description,
+					picked: true,
+					entry,
+					metadata
+				};
+			}));
+			const selection = await vscode.window.showQuickPick(previewItems, {
+				title: `QuickIt: Import from ${path.basename(bundleUri.fsPath)}`,
+				placeHolder: 'Review the bundle and choose the scripts to import',
+				canPickMany: true
+			});
+			if (!selection || selection.length === 0) {
+				return;
+			}
+
+			const changedInterpreters = Object.entries(bundle.interpreters)
+				.filter(([setting, command]) => getQuickItSettingValue(setting) !== command);
+			const currentLanguageInterpreters = context.globalState.get<Record<string, string>>(LANGUAGE_INTERPRETERS_STATE_KEY, {});
+			const changedLanguageInterpreters = Object.entries(bundle.languageInterpreters)
+				.filter(([extension, command]) => currentLanguageInterpreters[extension] !== command);
+			const hasInterpreterChanges = changedInterpreters.length > 0
+				|| changedLanguageInterpreters.length > 0
+				|| selection.some(({ entry }) => entry.interpreter);
+			const reviewLines = [
+				'These files will be saved as runnable scripts:',
+				...selection.map(({ label }) => `  ${label}`),
+				...selection.flatMap(({ label, metadata }) => [
+					...(metadata.interpreter ? [`${label} runs with "${metadata.interpreter}".`] : []),
+					...(metadata.schedule ? [`${label} runs on its own schedule (${metadata.schedule.expression}).`] : []),
+					...metadata.triggers.map((trigger) => `${label} runs automatically ${formatScriptTrigger(trigger)}.`)
+				]),
+				...selection.flatMap(({ label, entry }) => entry.interpreter ? [`The bundle selects "${entry.interpreter}" as the interpreter for ${label}.`] : []),
+				...changedInterpreters.map(([setting, command]) => `The bundle sets quickIt.${setting} to "${command}".`),
+				...changedLanguageInterpreters.map(([extension, command]) => `The bundle selects "${command}" as the interpreter for ${extension} scripts.`)
+			];
+			const importAction = 'Import';
+			const importWithInterpretersAction = 'Import and Use Interpreters';
+			const confirmation = await vscode.window.showWarningMessage(
+				`Import ${selection.length} ${selection.length === 1 ? 'script' : 'scripts'}? Only import scripts you trust.`,
+				{ modal: true, detail: reviewLines.join('\n') },
+				importAction,
+				...(hasInterpreterChanges ? [importWithInterpretersAction] : [])
+			);
+			if (!confirmation) {
+				return;
+			}
+
+			let importedCount = 0;
+			let skippedCount = 0;
+			const importedInterpreters: Record<string, string> = {};
+			for (const { entry } of selection) {
+				const destination = await resolveConflictingUri(vscode.Uri.joinPath(targetDirectory, ...entry.path.split('/')), entry.path);
+				if (!destination) {
+					break;
+				}
+
+				if (destination === 'skip') {
+					skippedCount++;
+					continue;
+				}
+
+				const scriptUri = destination.uri;
+				await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(scriptUri, '..'));
+				await vscode.workspace.fs.writeFile(scriptUri, Buffer.from(entry.content, 'utf8'));
+				for (const preset of entry.argumentPresets) {
+					await argumentPresetStore.save(scriptUri, preset);
+				}
+				if (entry.interpreter) {
+					importedInterpreters[scriptUri.toString()] = entry.interpreter;
+				}
+				importedCount++;
+			}
+
+			if (confirmation === importWithInterpretersAction) {
+				const configuration = vscode.workspace.getConfiguration('quickIt');
+				for (const [setting, command] of changedInterpreters) {
+					await configuration.update(setting, command, vscode.ConfigurationTarget.Global);
+				}
+				await context.globalState.update(SCRIPT_INTERPRETERS_STATE_KEY, {
+					...context.globalState.get<Record<string, string>>(SCRIPT_INTERPRETERS_STATE_KEY, {}),
+					...importedInterpreters
+				});
+				await context.globalState.update(LANGUAGE_INTERPRETERS_STATE_KEY, {
+					...currentLanguageInterpreters,
+					...Object.fromEntries(changedLanguageInterpreters)
+				});
+			}
+
+			scriptsTreeProvider.refresh();
+			requestAutomationRefresh();
+			void vscode.window.showInformationMessage(
+				`QuickIt: Imported ${importedCount} ${importedCount === 1 ? 'script' : 'scripts'}${skippedCount > 0 ? `, skipped ${skippedCount}` : ''}.`
+				+ (unsupportedPaths.length > 0 ? ` Left out ${unsupportedPaths.length} with an unsupported file type: ${unsupportedPaths.join(', ')}.` : '')
+			);
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to import scripts', error);
+		}
+	});
+
+	const saveAsTemplateCommand = vscode.commands.registerCommand('quick-it.saveAsTemplate', async (item?: ScriptItem) => {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt script selected.');
+				return;
+			}
+
+			const extension = item.descriptor.extension;
+			const templateNameInput = await vscode.window.showInputBox({
+				title: 'QuickIt: Template Name',
+				prompt: 'Enter a name for the template. Use ${name}, ${fileName}, ${date} and ${author} in the script to fill them in later.',
+				value: stripScriptExtension(path.basename(item.uri.fsPath)),
+				validateInput: (value) => validateScriptNameInput(value, extension)
+			});
+			if (templateNameInput === undefined) {
+				return;
+			}
+
+			const templatesDirectory = getTemplatesDirectory();
+			await vscode.workspace.fs.createDirectory(templatesDirectory);
+			const templateFileName = normalizeScriptFileName(templateNameInput, extension);
+			const templateUri = vscode.Uri.joinPath(templatesDirectory, templateFileName);
+			if (await uriExists(templateUri)) {
+				const overwriteSelection = await vscode.window.showWarningMessage(
+					`A template named "${stripScriptExtension(templateFileName)}" already exists. Overwrite it?`,
+					{ modal: true },
+					'Overwrite'
+				);
+				if (overwriteSelection !== 'Overwrite') {
+					return;
+				}
+			}
+
+			await vscode.workspace.fs.copy(item.uri, templateUri, { overwrite: true });
+			void vscode.window.showInformationMessage(`Saved "${stripScriptExtension(templateFileName)}" as a QuickIt template.`);
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to save the template', error);
+		}
+	});
+
+	const openTemplatesFolderCommand = vscode.commands.registerCommand('quick-it.openTemplatesFolder', async () => {
+		try {
+			const templatesDirectory = getTemplatesDirectory();
+			await vscode.workspace.fs.createDirectory(templatesDirectory);
+			await vscode.commands.executeCommand('revealFileInOS', templatesDirectory);
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to open the templates folder', error);
+		}
+	});
+
+	const renameScriptCommand = vscode.commands.registerCommand('quick-it.renameScript', async (item?: ScriptItem | PipelineItem | FolderItem) => {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt script selected.');
+				return;
+			}
+
+			if (isReadOnlyTreeItem(item)) {
+				void vscode.window.showErrorMessage(`"${path.basename(item.uri.fsPath)}" is in a read-only script library.`);
+				return;
+			}
+
+			const currentName = path.basename(item.uri.fsPath);
+			const nameInput = await vscode.window.showInputBox({
+				title: 'QuickIt: Rename',
+				prompt: item instanceof ScriptItem ? 'Enter a new name. Changing the extension changes how the script runs.' : 'Enter a new name',
+				value: currentName,
+				valueSelection: [0, item instanceof FolderItem ? currentName.length : currentName.length - getFileNameSuffix(currentName).length],
+				validateInput: (value) => validateNewItemName(item, value)
+			});
+			if (nameInput === undefined) {
+				return;
+			}
+
+			const newName = normalizeNewItemName(item, nameInput);
+			const targetUri = vscode.Uri.joinPath(item.uri, '..', newName);
+			if (newName === currentName) {
+				return;
+			}
+
+			// A case-only rename reports the target as existing on case-insensitive file systems.
+			if (newName.toLowerCase() !== currentName.toLowerCase() && await uriExists(targetUri)) {
+				void vscode.window.showWarningMessage(`"${newName}" already exists.`);
+				return;
+			}
+
+			await moveScriptFile(item.uri, targetUri, false);
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to rename the selected item', error);
+		}
+	});
+
+	const duplicateScriptCommand = vscode.commands.registerCommand('quick-it.duplicateScript', async (item?: ScriptItem | PipelineItem) => {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt script selected.');
+				return;
+			}
+
+			const targetDirectory = await resolveTargetDirectory(item);
+			const suggestedName = path.basename((await findAvailableUri(item.uri)).fsPath);
+			const nameInput = await vscode.window.showInputBox({
+				title: 'QuickIt: Duplicate',
+				prompt: 'Enter a name for the copy',
+				value: suggestedName,
+				valueSelection: [0, suggestedName.length - getFileNameSuffix(suggestedName).length],
+				validateInput: (value) => validateNewItemName(item, value)
+			});
+			if (nameInput === undefined) {
+				return;
+			}
+
+			const newName = normalizeNewItemName(item, nameInput);
+			const targetUri = vscode.Uri.joinPath(targetDirectory, newName);
+			if (await uriExists(targetUri)) {
+				const overwriteSelection = await vscode.window.showWarningMessage(
+					`A script named "${newName}" already exists. Overwrite it?`,
+					{ modal: true },
+					'Overwrite'
+				);
+				if (overwriteSelection !== 'Overwrite') {
+					return;
+				}
+			}
+
+			await vscode.workspace.fs.copy(item.uri, targetUri, { overwrite: true });
+			for (const preset of argumentPresetStore.get(item.uri)) {
+				await argumentPresetStore.save(targetUri, preset);
+			}
+			scriptsTreeProvider.refresh();
+			requestAutomationRefresh();
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to duplicate the selected script', error);
+		}
+	});
+
+	const selectInterpreterCommand = vscode.commands.registerCommand(
+		'quick-it.selectInterpreter',
+		async (item?: ScriptItem | ScriptGroupItem) => {
+			try {
+				let descriptor = item instanceof ScriptItem
+					? item.descriptor
+					: getScriptDescriptors().find((candidate) => item?.groupId === `language:${candidate.label}`);
+				if (!descriptor) {
+					const selectedLanguage = await vscode.window.showQuickPick(
+						getScriptDescriptors().map((candidate) => ({
+							label: candidate.label,
+							description: getInterpreterSelection(undefined, candidate)?.command ?? 'detect automatically',
+							descriptor: candidate
+						})),
+						{ title: 'QuickIt: Select a language' }
+					);
+					if (!selectedLanguage) {
+						return;
+					}
+
+					descriptor = selectedLanguage.descriptor;
+				}
+
+				await selectInterpreter(descriptor, item instanceof ScriptItem ? item.uri : undefined);
+			} catch (error) {
+				notifyQuickItError('QuickIt failed to select an interpreter', error);
+			}
+		}
+	);
+
+	const editScriptCommand = vscode.commands.registerCommand('quick-it.editScript', async (item?: ScriptItem | PipelineItem) => {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt script selected.');
+				return;
+			}
+
+			const document = await vscode.workspace.openTextDocument(item.uri);
+			await vscode.window.showTextDocument(document);
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to open the selected script', error);
+		}
+	});
+
+	const removeScriptCommand = vscode.commands.registerCommand('quick-it.removeScript', async (item?: Exclude<QuickItTreeItem, ScriptGroupItem | LibraryItem>) => {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt script selected.');
+				return;
+			}
+
+			if (isReadOnlyTreeItem(item)) {
+				void vscode.window.showErrorMessage(`"${path.basename(item.uri.fsPath)}" is in a read-only script library.`);
+				return;
+			}
+
+			const scriptName = path.basename(item.uri.fsPath);
+			const confirmation = await vscode.window.showWarningMessage(
+				item instanceof FolderItem
+					? `Remove the folder "${scriptName}" and all scripts inside it from QuickIt?`
+					: `Remove "${scriptName}" from QuickIt?`,
+				{ modal: true },
+				'Remove'
+			);
+			if (confirmation !== 'Remove') {
+				return;
+			}
+
+			if (!(await uriExists(item.uri))) {
+				void vscode.window.showWarningMessage(`"${scriptName}" was already removed.`);
+				scriptsTreeProvider.refresh();
+				return;
+			}
+
+			await vscode.workspace.fs.delete(item.uri, { recursive: true, useTrash: true });
+			scriptsTreeProvider.refresh();
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to remove the selected script', error);
+		}
+	});
+
+	const saveSubscription = vscode.workspace.onDidSaveTextDocument((document) => {
+		void handleDocumentSaved(document);
+		fireTriggers(
+			(trigger) => trigger.event === 'save' && matchesSavePattern(trigger.pattern, document),
+			{ triggerEvent: 'save', triggerFile: document.uri.fsPath }
+		);
+	});
+
+	const taskEndSubscription = vscode.tasks.onDidEndTaskProcess((event) => {
+		const task = event.execution.task;
+		if (task.definition.type === 'quick-it') {
+			return;
+		}
+
+		fireTriggers(
+			(trigger) => trigger.event === 'taskEnd' && trigger.taskName === task.name,
+			{ triggerEvent: 'taskEnd', triggerTask: task.name, triggerExitCode: event.exitCode === undefined ? '' : String(event.exitCode) }
+		);
+	});
+
+	const grantWorkspaceTrustSubscription = vscode.workspace.onDidGrantWorkspaceTrust(() => {
+		fireWorkspaceOpenTriggers();
+		void offerWorkspaceLibraries();
+	});
+
+	const workspaceFoldersSubscription = vscode.workspace.onDidChangeWorkspaceFolders(() => {
+		refreshScriptLibraries();
+		void offerWorkspaceLibraries();
+	});
+
+	const renameSubscription = vscode.workspace.onDidRenameFiles((event) => {
+		void migrateScriptState(event.files).then(() => {
+			scriptsTreeProvider.refresh();
+			runHistoryTreeProvider.refresh();
+			requestAutomationRefresh();
+		});
+	});
+
+	const createSubscription = vscode.workspace.onDidCreateFiles(() => {
+		scriptsTreeProvider.refresh();
+		requestAutomationRefresh();
+	});
+
+	const deleteSubscription = vscode.workspace.onDidDeleteFiles(() => {
+		scriptsTreeProvider.refresh();
+		requestAutomationRefresh();
+	});
+
+	const configChangeSubscription = vscode.workspace.onDidChangeConfiguration((event) => {
+		if (!event.affectsConfiguration('quickIt')) {
+			return;
+		}
+
+		if (event.affectsConfiguration('quickIt.languages')) {
+			loadLanguageSettings();
+		}
+
+		if (event.affectsConfiguration('quickIt.interpreters') || event.affectsConfiguration('quickIt.languages')) {
+			interpreterVersions.clear();
+			knownInterpreterVersions.clear();
+		}
+
+		if (event.affectsConfiguration('quickIt.targets')) {
+			loadExecutionTargets();
+		}
+
+		if (event.affectsConfiguration('quickIt.environmentProfiles')) {
+			loadEnvironmentProfiles();
+			updateEnvironmentProfileDescription();
+		}
+
+		scriptsTreeProvider.refresh();
+		void watchScriptsDirectory();
+		requestAutomationRefresh();
+		if (event.affectsConfiguration('quickIt.history.maxEntries')) {
+			void runHistoryStore.trim(getRunHistoryMaxEntries()).then(() => {
+				runHistoryTreeProvider.refresh();
+				return pruneRunLogs();
+			});
+		}
+	});
+
+	context.subscriptions.push(
+		addScriptCommand,
+		addFolderCommand,
+		openSettingsCommand,
+		runScriptCommand,
+		runScriptByNameCommand,
+		runScriptWithArgumentsCommand,
+		runScriptInDirectoryCommand,
+		runScriptOnTargetCommand,
+		runScriptOnSelectionCommand,
+		selectEnvironmentProfileCommand,
+		manageEnvironmentSecretsCommand,
+		stopScriptCommand,
+		restartScriptCommand,
+		stopAllScriptsCommand,
+		runArgumentPresetCommand,
+		addArgumentPresetCommand,
+		removeArgumentPresetCommand,
+		addPipelineCommand,
+		runPipelineCommand,
+		stopPipelineCommand,
+		pauseScheduleCommand,
+		resumeScheduleCommand,
+		toggleSchedulesCommand,
+		pinToStatusBarCommand,
+		unpinFromStatusBarCommand,
+		addFavoriteCommand,
+		removeFavoriteCommand,
+		filterScriptsCommand,
+		clearScriptsFilterCommand,
+		groupScriptsCommand,
+		manageWorkspaceLibrariesCommand,
+		exportScriptsCommand,
+		importScriptsCommand,
+		saveAsTemplateCommand,
+		openTemplatesFolderCommand,
+		renameScriptCommand,
+		duplicateScriptCommand,
+		selectInterpreterCommand,
+		rerunHistoryEntryCommand,
+		openHistoryScriptCommand,
+		openRunLogCommand,
+		showScriptLogsCommand,
+		clearHistoryCommand,
+		editScriptCommand,
+		removeScriptCommand,
+		saveSubscription,
+		renameSubscription,
+		createSubscription,
+		deleteSubscription,
+		taskEndSubscription,
+		grantWorkspaceTrustSubscription,
+		workspaceFoldersSubscription,
+		configChangeSubscription
+	);
+
+	void ensureScriptsDirectoryExists(getScriptsDirectory);
+	void watchScriptsDirectory();
+	void refreshAutomation().then(() => fireWorkspaceOpenTriggers());
+	void showSafetyNoticeOnce(context);
+	void offerWorkspaceLibraries();
+
+	const handleDocumentSaved = async (document: vscode.TextDocument): Promise<void> => {
+		try {
+			if (await isInScriptLibrary(document.uri, getScriptLibraries)) {
+				scriptsTreeProvider.refresh();
+				requestAutomationRefresh();
+			}
+		} catch (error) {
+			console.error(`[QuickIt] Failed to refresh scripts after save: ${toErrorMessage(error)}`);
+		}
+	};
+
+	const api: QuickItApi = {
+		registerInterpreter(extension: string, command: string, label?: string): vscode.Disposable {
+			const normalizedExtension = normalizeExtension(extension);
+			if (!normalizedExtension) {
+				throw new Error('Extension must be provided.');
+			}
+
+			const normalizedCommand = command.trim();
+			if (!normalizedCommand) {
+				throw new Error('Interpreter command must be provided.');
+			}
+
+			if (BUILTIN_BY_EXTENSION.has(normalizedExtension)) {
+				throw new Error(`"${normalizedExtension}" is already handled by a built-in QuickIt interpreter.`);
+			}
+
+			customInterpreters.set(normalizedExtension, { command: normalizedCommand, label });
+			scriptsTreeProvider.refresh();
+
+			return new vscode.Disposable(() => {
+				const currentValue = customInterpreters.get(normalizedExtension);
+				if (!currentValue || currentValue.command !== normalizedCommand) {
+					return;
+				}
+
+				customInterpreters.delete(normalizedExtension);
+				scriptsTreeProvider.refresh();
+			});
+		}
+	};
+
+	return api;
+
+	async function runScript(item: ScriptReference, options: RunScriptOptions = {}): Promise<RunScriptResult | undefined> {
+		try {
+			const metadata = await readScriptMetadata(item.uri, item.descriptor);
+			const scriptName = path.basename(item.uri.fsPath);
+			const concurrencyPolicy = metadata.concurrency ?? getConcurrencyPolicySetting();
+			// Refuse early so a running singleton does not prompt for inputs or prepare an environment first.
+			// acquireConcurrencySlot checks again when the run is registered.
+			if (concurrencyPolicy === 'singleton' && getActiveRunsForScript(item.uri).length > 0) {
+				void vscode.window.showWarningMessage(`QuickIt: "${scriptName}" is already running.`);
+				return undefined;
+			}
+
+			const resolveInput = createInputResolver(metadata.inputs, scriptName, !options.unattended);
+			const runLocation = await resolveRunLocation(
+				item.uri,
+				options.workingDirectory ?? (metadata.cwd ? { mode: 'custom', path: metadata.cwd } : getWorkingDirectorySetting()),
+				options.substituteVariables === false ? undefined : resolveInput,
+				options.substituteVariables !== false,
+				!options.unattended
+			);
+			if (!runLocation) {
+				return undefined;
+			}
+
+			if (!(await uriExists(vscode.Uri.file(runLocation.cwd)))) {
+				void vscode.window.showErrorMessage(`Working directory "${runLocation.cwd}" for "${scriptName}" does not exist.`);
+				return undefined;
+			}
+
+			const targetName = options.target ?? metadata.target ?? normalizeOptionalString(getQuickItSettingValue('execution.target')) ?? DEFAULT_EXECUTION_TARGET_NAME;
+			const target = getExecutionTargets().find((candidate) => candidate.name === targetName);
+			if (!target) {
+				void vscode.window.showErrorMessage(`QuickIt has no execution target named "${targetName}". Add it to the quickIt.targets setting.`);
+				return undefined;
+			}
+
+			const isRemoteTarget = target.backend === 'ssh' || target.backend === 'docker';
+			if (isRemoteTarget && options.input !== undefined) {
+				void vscode.window.showErrorMessage(`"${scriptName}" runs on "${target.name}". Editor text can only be sent to scripts that run on this machine.`);
+				return undefined;
+			}
+
+			const localInterpreter = isRemoteTarget ? undefined : await resolveLocalInterpreter(item, metadata, runLocation.cwd, !options.unattended);
+			if (!isRemoteTarget && !localInterpreter) {
+				return undefined;
+			}
+
+			const environmentProfile = await getActiveEnvironmentProfile();
+			const secrets = environmentProfile?.secrets ?? {};
+			const profileEnvironment = { ...environmentProfile?.variables, ...secrets };
+			const runVariables = { ...runLocation.variables, ...options.variables };
+			const substitutionVariables = { ...runVariables, ...getEditorVariables() };
+			const passwordInputIds = new Set(metadata.inputs.filter((input) => input.type === 'password').map((input) => input.id));
+			const scriptArguments = await resolveRunValues(
+				options.scriptArguments ?? metadata.args ?? [],
+				options.substituteVariables === false,
+				substitutionVariables,
+				resolveInput,
+				secrets,
+				passwordInputIds
+			);
+			if (!scriptArguments) {
+				return undefined;
+			}
+
+			const { resolved: resolvedArguments, masked: maskedArguments } = scriptArguments;
+
+			// Runs replayed from older history entries have no stored @env values and resolve them again.
+			const replayedEnvironment = options.substituteVariables === false ? options.environment : undefined;
+			const environmentEntries = Object.entries(replayedEnvironment ?? metadata.env);
+			const environmentValues = await resolveRunValues(
+				environmentEntries.map(([, value]) => value),
+				replayedEnvironment !== undefined,
+				substitutionVariables,
+				resolveInput,
+				secrets,
+				passwordInputIds
+			);
+			if (!environmentValues) {
+				return undefined;
+			}
+
+			const scriptEnvironment: Record<string, string> = {};
+			const maskedEnvironment: Record<string, string> = {};
+			environmentEntries.forEach(([name], index) => {
+				scriptEnvironment[name] = environmentValues.resolved[index];
+				maskedEnvironment[name] = environmentValues.masked[index];
+			});
+
+			const runId = createRunId();
+			const taskName = isRemoteTarget ? `QuickIt: ${scriptName} (${target.name})` : `QuickIt: ${scriptName}`;
+			let commandLine: string;
+			let displayedCommandLine: string;
+			let processSpec: ProcessSpec;
+			if (localInterpreter) {
+				commandLine = item.descriptor.buildRunCommand(localInterpreter.command, item.uri.fsPath, resolvedArguments);
+				displayedCommandLine = item.descriptor.buildRunCommand(localInterpreter.command, item.uri.fsPath, maskedArguments);
+				processSpec = {
+					command: commandLine,
+					args: [],
+					shell: true,
+					cwd: runLocation.cwd,
+					env: { ...createVariableEnvironment(runVariables), ...localInterpreter.environment, ...profileEnvironment, ...scriptEnvironment }
+				};
+			} else {
+				const transportCommand = target.command ?? target.backend;
+				if (!(await isCommandAvailable(transportCommand))) {
+					void vscode.window.showErrorMessage(`"${transportCommand}" was not found on PATH. It is needed to run scripts on "${target.name}".`);
+					return undefined;
+				}
+
+				// Remote hosts do not share local paths, so only the profile and the script's own @env values travel with it.
+				const scriptContent = await fs.promises.readFile(item.uri.fsPath, 'utf8');
+				({ commandLine, spec: processSpec } = createRemoteProcessSpec(
+					target,
+					item.descriptor,
+					runId,
+					scriptContent,
+					resolvedArguments,
+					{ ...profileEnvironment, ...scriptEnvironment },
+					maskedArguments
+				));
+				displayedCommandLine = commandLine;
+				processSpec = { ...processSpec, cwd: runLocation.cwd };
+			}
+
+			const shouldCapture = shouldCaptureOutput(metadata, getQuickItSetting<boolean>('output.capture', false));
+			const logPath = shouldCapture ? getRunLogPath(runId, scriptName) : undefined;
+			let scriptProcess: ScriptProcess | undefined;
+			let task: vscode.Task | undefined;
+			let stdout = '';
+			let stderr = '';
+			if (options.input !== undefined) {
+				scriptProcess = new ScriptProcess(
+					taskName,
+					displayedCommandLine,
+					{ ...processSpec, input: options.input },
+					logPath,
+					logPath ? getOutputChannel() : undefined,
+					(text, source) => {
+						if (source === 'stdout') {
+							stdout += text;
+						} else if (source === 'stderr') {
+							stderr += text;
+						}
+					}
+				);
+			} else if (target.backend === 'process') {
+				scriptProcess = new ScriptProcess(taskName, displayedCommandLine, processSpec, logPath, getOutputChannel(), () => undefined);
+			} else if (logPath || isRemoteTarget || displayedCommandLine !== commandLine) {
+				// A shell task echoes its command line in the terminal, so runs with secrets in it use a pseudoterminal.
+				const pseudoterminal = new ScriptProcessPseudoterminal(taskName, displayedCommandLine, processSpec, logPath, logPath ? getOutputChannel() : undefined);
+				scriptProcess = pseudoterminal.process;
+				task = createQuickItCustomTask({ type: 'quick-it', runId }, taskName, async () => pseudoterminal);
+			} else {
+				task = createQuickItShellTask({ type: 'quick-it', runId }, taskName, commandLine, { cwd: processSpec.cwd, env: { ...processSpec.env } });
+			}
+
+			if (task && options.unattended) {
+				task.presentationOptions = { ...task.presentationOptions, reveal: vscode.TaskRevealKind.Silent };
+			}
+
+			const activeRun: ActiveRun = {
+				runId,
+				script: item,
+				pipelineUri: options.pipelineUri,
+				replayOptions: createReplayOptions(maskedArguments, maskedEnvironment, runLocation.cwd, target.name),
+				logPath,
+				stopRequested: false,
+				queued: false,
+				finished: Promise.resolve()
+			};
+			const releaseConcurrencySlot = await acquireConcurrencySlot(activeRun, concurrencyPolicy);
+			if (!releaseConcurrencySlot) {
+				return undefined;
+			}
+
+			if (!options.quiet) {
+				void vscode.window.showInformationMessage(`QuickIt: Executing "${scriptName}"...`);
+			}
+
+			const startedAt = Date.now();
+			let exitCode: number | undefined;
+			// Cancelling stops only this run, not other runs of the same script.
+			activeRun.stopRequested = options.cancellation?.isCancellationRequested ?? false;
+			const cancellationSubscription = options.cancellation?.onCancellationRequested(() => {
+				void stopRuns([activeRun]);
+			});
+			try {
+				let runCompletion: Promise<number | undefined>;
+				if (task) {
+					runCompletion = executeQuickItTask(task, runId, (execution) => {
+						activeRun.terminate = () => execution.terminate();
+						if (activeRun.stopRequested) {
+							execution.terminate();
+						}
+					});
+				} else {
+					const backgroundProcess = scriptProcess;
+					activeRun.terminate = () => backgroundProcess?.stop();
+					// Process runs have no terminal, so their output is only visible in the Output channel.
+					if (!options.unattended && options.input === undefined) {
+						getOutputChannel().show(true);
+					}
+
+					void backgroundProcess?.start();
+					if (activeRun.stopRequested) {
+						backgroundProcess?.stop();
+					}
+
+					runCompletion = backgroundProcess?.exited ?? Promise.resolve(undefined);
+				}
+
+				updateRunningState();
+				exitCode = (await runCompletion) ?? scriptProcess?.exitCode;
+			} finally {
+				cancellationSubscription?.dispose();
+				releaseConcurrencySlot();
+				updateRunningState();
+			}
+
+			showStatusBarPinResult(item.uri, exitCode);
+
+			await recordRunHistory({
+				id: runId,
+				scriptUri: item.uri.toString(),
+				scriptName,
+				startedAt,
+				durationMs: Date.now() - startedAt,
+				exitCode,
+				arguments: maskedArguments,
+				environment: environmentEntries.length > 0 ? maskedEnvironment : undefined,
+				cwd: runLocation.cwd,
+				logPath,
+				target: target.name,
+				profile: environmentProfile?.name
+			});
+			const result: RunScriptResult = options.input === undefined ? { exitCode } : { exitCode, stdout, stderr };
+			if (options.quiet) {
+				return result;
+			}
+
+			if (exitCode === undefined || exitCode === 0) {
+				void vscode.window.showInformationMessage(`QuickIt: Finished "${scriptName}".`);
+			} else {
+				void vscode.window.showWarningMessage(`QuickIt: Finished "${scriptName}" (exit code ${exitCode}).`);
+			}
+
+			return result;
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to run the selected script', error);
+			return undefined;
+		}
+	}
+
+	async function runScriptByName(name?: string, scriptArguments?: readonly string[]): Promise<void> {
+		try {
+			const scripts = await listScripts();
+			const relativePaths = scripts.map((script) => script.scriptPath);
+			const matchingPaths = name === undefined ? relativePaths : matchScriptNames(relativePaths, name);
+			if (matchingPaths.length === 0) {
+				void vscode.window.showErrorMessage(
+					name === undefined ? 'QuickIt has no scripts to run yet.' : `No QuickIt script matches "${name}".`
+				);
+				return;
+			}
+
+			let script = scripts[relativePaths.indexOf(matchingPaths[0])];
+			if (matchingPaths.length > 1 || name === undefined) {
+				const selection = await pickScript(
+					matchingPaths.map((relativePath) => scripts[relativePaths.indexOf(relativePath)]),
+					'QuickIt: Run Script',
+					name === undefined ? 'Select a script to run' : `Several scripts match "${name}"`
+				);
+				if (!selection) {
+					return;
+				}
+
+				script = selection;
+			}
+
+			await runScript(script, { scriptArguments });
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to run the script', error);
+		}
+	}
+
+	async function pickScript<T extends ScriptReference & { scriptPath: string }>(
+		scripts: readonly T[],
+		title: string,
+		placeHolder: string
+	): Promise<T | undefined> {
+		const selection = await vscode.window.showQuickPick(
+			await Promise.all(scripts.map(async (script) => {
+				const metadata = await readScriptMetadata(script.uri, script.descriptor);
+				return {
+					label: script.scriptPath,
+					description: [script.descriptor.label, ...metadata.tags.map((tag) => `#${tag}`)].join(' '),
+					detail: metadata.description,
+					script
+				};
+			})),
+			{ title, placeHolder, matchOnDescription: true, matchOnDetail: true }
+		);
+		return selection?.script;
+	}
+
+	async function runScriptOnEditorText(): Promise<void> {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			void vscode.window.showErrorMessage('Open a file to run a QuickIt script on its text.');
+			return;
+		}
+
+		const document = editor.document;
+		const selections = editor.selections.filter((selection) => !selection.isEmpty).sort((a, b) => a.start.compareTo(b.start));
+		const hasSelection = selections.length > 0;
+		const ranges: readonly vscode.Range[] = hasSelection
+			? selections
+			: [new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length))];
+		const lastScriptUri = context.globalState.get<string>(LAST_EDITOR_SCRIPT_STATE_KEY);
+		const scripts = (await listScripts()).sort((a, b) => Number(b.uri.toString() === lastScriptUri) - Number(a.uri.toString() === lastScriptUri));
+		if (scripts.length === 0) {
+			void vscode.window.showErrorMessage('QuickIt has no scripts to run yet.');
+			return;
+		}
+
+		const script = await pickScript(
+			scripts,
+			'QuickIt: Run Script on Selection/File',
+			hasSelection ? 'Select a script to receive the selected text on stdin' : 'Select a script to receive the file on stdin'
+		);
+		if (!script) {
+			return;
+		}
+
+		await context.globalState.update(LAST_EDITOR_SCRIPT_STATE_KEY, script.uri.toString());
+		const outputMode = await pickEditorOutputMode(hasSelection);
+		if (!outputMode) {
+			return;
+		}
+
+		const scriptName = path.basename(script.uri.fsPath);
+		const documentVersion = document.version;
+		const outputs = await vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Notification,
+				title: `QuickIt: Running "${scriptName}" on the ${hasSelection ? 'selection' : 'file'}`,
+				cancellable: true
+			},
+			async (_progress, token) => {
+				const scriptOutputs: string[] = [];
+				for (const range of ranges) {
+					const input = document.getText(range);
+					const result = await runScript(script, { input, quiet: true, cancellation: token });
+					if (!result || token.isCancellationRequested) {
+						return undefined;
+					}
+
+					if (result.exitCode !== 0) {
+						const outputChannel = getOutputChannel();
+						outputChannel.appendLine(`[QuickIt] "${scriptName}" exited with code ${result.exitCode ?? 'unknown'}.`);
+						outputChannel.append(result.stderr ?? '');
+						const firstErrorLine = result.stderr?.trim().split(/\r?\n/)[0];
+						void vscode.window.showWarningMessage(
+							`QuickIt: "${scriptName}" exited with code ${result.exitCode ?? 'unknown'}, so the editor was left unchanged.${firstErrorLine ? ` ${firstErrorLine}` : ''}`,
+							'Show Output'
+						).then((selection) => {
+							if (selection === 'Show Output') {
+								outputChannel.show(true);
+							}
+						});
+						return undefined;
+					}
+
+					scriptOutputs.push(fitEditorOutputToInput(input, result.stdout ?? ''));
+				}
+
+				return scriptOutputs;
+			}
+		);
+		if (!outputs) {
+			return;
+		}
+
+		const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+		if (outputMode !== 'newDocument' && document.version !== documentVersion) {
+			void vscode.window.showWarningMessage(`"${path.basename(document.fileName)}" changed while "${scriptName}" was running, so the output opened in a new document.`);
+		}
+
+		if (outputMode === 'newDocument' || document.version !== documentVersion) {
+			const outputDocument = await vscode.workspace.openTextDocument({ content: outputs.join(eol), language: document.languageId });
+			await vscode.window.showTextDocument(outputDocument, { viewColumn: vscode.ViewColumn.Beside });
+			return;
+		}
+
+		const edit = new vscode.WorkspaceEdit();
+		ranges.forEach((range, index) => {
+			if (outputMode === 'replace') {
+				edit.replace(document.uri, range, outputs[index]);
+				return;
+			}
+
+			// A selection of whole lines ends at the start of the next line, which is not part of it.
+			const lastLine = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+			edit.insert(document.uri, document.lineAt(lastLine).range.end, `${eol}${outputs[index].replace(/\r?\n$/, '')}`);
+		});
+		if (!(await vscode.workspace.applyEdit(edit))) {
+			void vscode.window.showErrorMessage(`QuickIt could not write the output of "${scriptName}" to the editor.`);
+		}
+	}
+
+	async function pickEditorOutputMode(hasSelection: boolean): Promise<EditorOutputMode | undefined> {
+		const configuredMode = getQuickItSettingValue('editor.output');
+		const outputMode = EDITOR_OUTPUT_MODES.find((mode) => mode === configuredMode);
+		if (outputMode) {
+			return outputMode;
+		}
+
+		const selection = await vscode.window.showQuickPick(
+			[
+				{ label: hasSelection ? 'Replace Selection' : 'Replace File Contents', mode: 'replace' as const },
+				{ label: hasSelection ? 'Insert Below Selection' : 'Insert at End of File', mode: 'insertBelow' as const },
+				{ label: 'Open in New Document', mode: 'newDocument' as const }
+			],
+			{ title: 'QuickIt: Script Output', placeHolder: 'Where should the script output go?' }
+		);
+		return selection?.mode;
+	}
+
+	async function listScripts(): Promise<(ScriptReference & { scriptPath: string })[]> {
+		const scripts: (ScriptReference & { scriptPath: string })[] = [];
+		const libraries = await getScriptLibraries();
+		for (const [libraryIndex, library] of libraries.entries()) {
+			if (!(await uriExists(library.uri))) {
+				continue;
+			}
+
+			for (const uri of await listScriptFiles(library.uri, getNestedLibraryRoots(libraries, library))) {
+				const descriptor = resolveDescriptorForUri(uri);
+				if (descriptor) {
+					scripts.push({ uri, descriptor, scriptPath: getLibraryScriptPath(library, uri, libraryIndex === 0) });
+				}
+			}
+		}
+
+		return scripts;
+	}
+
+	function refreshScriptLibraries(): void {
+		scriptsTreeProvider.refresh();
+		void watchScriptsDirectory();
+		requestAutomationRefresh();
+	}
+
+	async function offerWorkspaceLibraries(): Promise<void> {
+		if (!vscode.workspace.isTrusted) {
+			return;
+		}
+
+		const approvedLibraries = new Set(getApprovedWorkspaceLibraries());
+		for (const library of getWorkspaceLibraryCandidates()) {
+			const libraryKey = library.uri.toString();
+			if (approvedLibraries.has(libraryKey) || offeredWorkspaceLibraries.has(libraryKey) || !(await uriExists(library.uri))) {
+				continue;
+			}
+
+			offeredWorkspaceLibraries.add(libraryKey);
+			const selection = await vscode.window.showInformationMessage(
+				`The "${library.name}" workspace has a ${WORKSPACE_LIBRARY_FOLDER_NAME} script folder. Show its scripts in QuickIt? QuickIt may run them from schedules and triggers.`,
+				'Allow',
+				'Not Now'
+			);
+			if (selection === 'Allow') {
+				await context.globalState.update(APPROVED_WORKSPACE_LIBRARIES_STATE_KEY, [...getApprovedWorkspaceLibraries(), libraryKey]);
+				refreshScriptLibraries();
+			}
+		}
+	}
+
+	async function runPipeline(pipelineUri: vscode.Uri): Promise<void> {
+		const pipelineKey = pipelineUri.toString();
+		const pipelineName = path.basename(pipelineUri.fsPath);
+		if (runningPipelines.has(pipelineKey)) {
+			void vscode.window.showWarningMessage(`QuickIt: Pipeline "${pipelineName}" is already running.`);
+			return;
+		}
+
+		let definition: PipelineDefinition;
+		const stepScripts = new Map<PipelineScriptStep, ScriptReference>();
+		try {
+			definition = parsePipelineDefinition(Buffer.from(await vscode.workspace.fs.readFile(pipelineUri)).toString('utf8'));
+			for (const step of definition.steps.flatMap((candidate) => 'parallel' in candidate ? candidate.parallel : [candidate])) {
+				const script = await resolvePipelineStepScript(pipelineUri, step.script);
+				if (!script) {
+					void vscode.window.showErrorMessage(`QuickIt: Pipeline "${pipelineName}" references "${step.script}", which is not a QuickIt script.`);
+					return;
+				}
+
+				stepScripts.set(step, script);
+			}
+		} catch (error) {
+			notifyQuickItError(`QuickIt failed to read pipeline "${pipelineName}"`, error);
+			return;
+		}
+
+		const statuses = new Map<string, PipelineStepStatus>();
+		definition.steps.forEach((step, index) => {
+			statuses.set(String(index), 'pending');
+			if ('parallel' in step) {
+				step.parallel.forEach((_, parallelIndex) => statuses.set(`${index}.${parallelIndex}`, 'pending'));
+			}
+		});
+
+		const pipelineRun = { cancelled: false };
+		pipelineStepStatuses.set(pipelineKey, statuses);
+		runningPipelines.set(pipelineKey, pipelineRun);
+		scriptsTreeProvider.refresh();
+		void vscode.window.showInformationMessage(`QuickIt: Running pipeline "${pipelineName}"...`);
+
+		const setStatus = (stepKey: string, status: PipelineStepStatus): void => {
+			statuses.set(stepKey, status);
+			scriptsTreeProvider.refresh();
+		};
+
+		const runStep = async (step: PipelineScriptStep, stepKey: string): Promise<boolean> => {
+			const script = stepScripts.get(step);
+			if (!script) {
+				setStatus(stepKey, 'failed');
+				return false;
+			}
+
+			setStatus(stepKey, 'running');
+			const result = await runScript(script, { scriptArguments: step.args, quiet: true, pipelineUri: pipelineKey });
+			const succeeded = !pipelineRun.cancelled && result !== undefined && (result.exitCode === undefined || result.exitCode === 0);
+			setStatus(stepKey, succeeded ? 'succeeded' : 'failed');
+			return succeeded;
+		};
+
+		let failedStepName: string | undefined;
+		let hasIgnoredFailures = false;
+		try {
+			for (const [index, step] of definition.steps.entries()) {
+				const stepKey = String(index);
+				if (failedStepName || pipelineRun.cancelled) {
+					statuses.set(stepKey, 'skipped');
+					if ('parallel' in step) {
+						step.parallel.forEach((_, parallelIndex) => statuses.set(`${stepKey}.${parallelIndex}`, 'skipped'));
+					}
+
+					continue;
+				}
+
+				const parallelSteps = 'parallel' in step ? step.parallel : [step];
+				if ('parallel' in step) {
+					setStatus(stepKey, 'running');
+				}
+
+				const results = await Promise.all(parallelSteps.map((parallelStep, parallelIndex) => runStep(
+					parallelStep,
+					'parallel' in step ? `${stepKey}.${parallelIndex}` : stepKey
+				)));
+				if ('parallel' in step) {
+					setStatus(stepKey, results.every(Boolean) ? 'succeeded' : 'failed');
+				}
+
+				const blockingFailure = parallelSteps.find((parallelStep, parallelIndex) => !results[parallelIndex] && !parallelStep.continueOnError);
+				if (blockingFailure) {
+					failedStepName = blockingFailure.name ?? blockingFailure.script;
+				} else if (results.some((succeeded) => !succeeded)) {
+					hasIgnoredFailures = true;
+				}
+			}
+		} finally {
+			runningPipelines.delete(pipelineKey);
+			scriptsTreeProvider.refresh();
+		}
+
+		if (pipelineRun.cancelled) {
+			void vscode.window.showWarningMessage(`QuickIt: Stopped pipeline "${pipelineName}".`);
+		} else if (failedStepName) {
+			void vscode.window.showWarningMessage(`QuickIt: Pipeline "${pipelineName}" stopped because "${failedStepName}" failed.`);
+		} else if (hasIgnoredFailures) {
+			void vscode.window.showWarningMessage(`QuickIt: Finished pipeline "${pipelineName}" with failed steps.`);
+		} else {
+			void vscode.window.showInformationMessage(`QuickIt: Finished pipeline "${pipelineName}".`);
+		}
+	}
+
+	async function resolvePipelineStepScript(pipelineUri: vscode.Uri, scriptPath: string): Promise<ScriptReference | undefined> {
+		for (const candidate of getPipelineStepCandidates(pipelineUri, scriptPath, await getScriptLibraries())) {
+			const uri = vscode.Uri.file(candidate);
+			const descriptor = resolveDescriptorForUri(uri);
+			if (descriptor && await uriExists(uri)) {
+				return { uri, descriptor };
+			}
+		}
+
+		return undefined;
+	}
+
+	function getActiveRunsForScript(uri: vscode.Uri): ActiveRun[] {
+		const scriptUri = uri.toString();
+		return [...activeRuns.values()].filter((run) => run.script.uri.toString() === scriptUri);
+	}
+
+	function updateRunningState(): void {
+		void vscode.commands.executeCommand('setContext', 'quickIt.hasRunningScripts', activeRuns.size > 0);
+		scriptsTreeProvider.refresh();
+		updateStatusBarPins();
+	}
+
+	async function refreshStatusBarPins(): Promise<void> {
+		const visiblePins: { pin: StatusBarPin; script: ScriptReference }[] = [];
+		for (const pin of statusBarPinStore.getAll()) {
+			const uri = vscode.Uri.parse(pin.scriptUri);
+			const descriptor = resolveDescriptorForUri(uri);
+			if (descriptor && await uriExists(uri)) {
+				visiblePins.push({ pin, script: { uri, descriptor } });
+			}
+		}
+
+		// Status bar priorities are fixed at creation, so items are recreated to keep them in pin order.
+		for (const { item } of statusBarPinItems.values()) {
+			item.dispose();
+		}
+
+		statusBarPinItems.clear();
+		for (const [index, { pin, script }] of visiblePins.entries()) {
+			const item = vscode.window.createStatusBarItem(
+				`quickIt.pin.${createHash('sha1').update(pin.scriptUri).digest('hex').slice(0, 12)}`,
+				vscode.StatusBarAlignment.Left,
+				STATUS_BAR_PIN_PRIORITY - index
+			);
+			item.name = `QuickIt: ${path.basename(script.uri.fsPath)}`;
+			statusBarPinItems.set(pin.scriptUri, { pin, script, item });
+		}
+
+		updateStatusBarPins();
+		for (const { item } of statusBarPinItems.values()) {
+			item.show();
+		}
+	}
+
+	function updateStatusBarPins(): void {
+		for (const [scriptUri, { pin, script, item }] of statusBarPinItems) {
+			const scriptName = path.basename(script.uri.fsPath);
+			const isRunning = getActiveRunsForScript(script.uri).length > 0;
+			const exitCode = isRunning ? undefined : statusBarResults.get(scriptUri)?.exitCode;
+			item.text = [`$(${isRunning ? 'loading~spin' : pin.icon})`, ...(pin.text ? [pin.text] : [])].join(' ');
+			item.tooltip = isRunning
+				? `QuickIt: "${scriptName}" is running`
+				: exitCode === undefined ? `QuickIt: Run "${scriptName}"` : `QuickIt: "${scriptName}" finished (${formatExitCode(exitCode)})`;
+			item.color = exitCode === 0 ? new vscode.ThemeColor('testing.iconPassed') : undefined;
+			item.backgroundColor = exitCode !== undefined && exitCode !== 0 ? new vscode.ThemeColor('statusBarItem.errorBackground') : undefined;
+			item.command = { command: 'quick-it.runScript', title: 'Run Script', arguments: [script] };
+		}
+	}
+
+	function showStatusBarPinResult(uri: vscode.Uri, exitCode: number | undefined): void {
+		const scriptUri = uri.toString();
+		if (exitCode === undefined || !statusBarPinItems.has(scriptUri)) {
+			return;
+		}
+
+		clearTimeout(statusBarResults.get(scriptUri)?.timer);
+		statusBarResults.set(scriptUri, {
+			exitCode,
+			timer: setTimeout(() => {
+				statusBarResults.delete(scriptUri);
+				updateStatusBarPins();
+			}, STATUS_BAR_RESULT_DURATION_MS)
+		});
+		updateStatusBarPins();
+	}
+
+	async function resolveLocalInterpreter(
+		item: ScriptReference,
+		metadata: ScriptMetadata,
+		cwd: string,
+		interactive: boolean
+	): Promise<{ command: string; environment: Record<string, string> } | undefined> {
+		const toolchain = await resolveScriptToolchain(item, metadata, cwd, interactive);
+		if (!toolchain) {
+			return undefined;
+		}
+
+		const interpreterCommand = toolchain.command;
+		if (!interpreterCommand) {
+			void vscode.window.showErrorMessage(`No interpreter found for ${item.descriptor.label}. Configure one in QuickIt settings.`);
+			return undefined;
+		}
+
+		if (!(await isCommandAvailable(interpreterCommand))) {
+			void vscode.window.showErrorMessage(`Interpreter "${interpreterCommand}" was not found on PATH.`);
+			return undefined;
+		}
+
+		const versionCommand = getMinVersionCommand(item.descriptor, interpreterCommand);
+		const interpreterVersion = metadata.minVersion ? await getInterpreterVersion(versionCommand) : undefined;
+		if (metadata.minVersion && interpreterVersion && compareVersions(interpreterVersion, metadata.minVersion) < 0) {
+			const message = `"${path.basename(item.uri.fsPath)}" needs version ${metadata.minVersion} or newer, but ${versionCommand} is ${interpreterVersion}.`;
+			if (interactive) {
+				const selection = await vscode.window.showWarningMessage(message, { modal: true }, 'Run Anyway', 'Select Interpreter...');
+				if (selection === 'Select Interpreter...') {
+					await selectInterpreter(item.descriptor, item.uri);
+					return undefined;
+				}
+
+				if (selection !== 'Run Anyway') {
+					return undefined;
+				}
+			} else {
+				getOutputChannel().appendLine(`[QuickIt] ${message}`);
+			}
+		}
+
+		return { command: interpreterCommand, environment: toolchain.environment };
+	}
+
+	function getPythonEnvironmentSetting(): PythonEnvironmentMode {
+		const configuredMode = getQuickItSettingValue('python.environment');
+		return PYTHON_ENVIRONMENT_MODES.find((mode) => mode === configuredMode) ?? 'none';
+	}
+
+	async function resolveScriptToolchain(
+		item: ScriptReference,
+		metadata: ScriptMetadata,
+		cwd: string,
+		interactive: boolean
+	): Promise<{ command: string | undefined; environment: Record<string, string> } | undefined> {
+		if (metadata.interpreter) {
+			return { command: metadata.interpreter, environment: {} };
+		}
+
+		const interpreterSelection = getInterpreterSelection(item.uri, item.descriptor);
+		if (interpreterSelection?.scope === 'script') {
+			return { command: interpreterSelection.command, environment: {} };
+		}
+
+		// A project's .venv and node_modules/.bin hold binaries the repository controls, so they are only
+		// picked up automatically once the workspace is trusted.
+		const canUseProjectToolchain = !isInUntrustedWorkspace(
+			cwd,
+			(vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath),
+			vscode.workspace.isTrusted
+		);
+		if (item.descriptor.extension === '.py') {
+			const environmentMode = getPythonEnvironmentSetting();
+			const projectEnvironmentPath = path.join(cwd, PROJECT_PYTHON_ENVIRONMENT_DIRECTORY_NAME);
+			let environmentPath: string | undefined;
+			if (metadata.venv) {
+				environmentPath = resolveScriptRelativePath(metadata.venv, path.dirname(item.uri.fsPath));
+			} else if (
+				environmentMode === 'auto'
+				&& canUseProjectToolchain
+				&& await uriExists(vscode.Uri.file(getVirtualEnvironmentPython(projectEnvironmentPath)))
+			) {
+				environmentPath = projectEnvironmentPath;
+			} else if (environmentMode === 'shared' || (environmentMode === 'auto' && (metadata.dependencies?.length ?? 0) > 0)) {
+				environmentPath = getSharedPythonEnvironmentPath();
+			}
+
+			if (environmentPath) {
+				if (!(await preparePythonEnvironment(item, environmentPath, metadata.dependencies ?? [], interactive))) {
+					return undefined;
+				}
+
+				return {
+					command: quoteInterpreterPath(getVirtualEnvironmentPython(environmentPath)),
+					environment: createVirtualEnvironmentVariables(environmentPath)
+				};
+			}
+		}
+
+		if (canUseProjectToolchain && getQuickItSetting<boolean>('node.preferLocalRunner', true)) {
+			const localRunner = await findLocalNodeRunner(cwd, LOCAL_NODE_RUNNERS[item.descriptor.extension] ?? []);
+			if (localRunner) {
+				return { command: quoteInterpreterPath(localRunner), environment: {} };
+			}
+		}
+
+		return { command: await resolveInterpreterCommand(item.descriptor, item.uri), environment: {} };
+	}
+
+	function getSharedPythonEnvironmentPath(): string {
+		return path.join(context.globalStorageUri.fsPath, SHARED_PYTHON_ENVIRONMENT_DIRECTORY_NAME);
+	}
+
+	async function preparePythonEnvironment(
+		item: ScriptReference,
+		environmentPath: string,
+		dependencies: readonly string[],
+		interactive: boolean
+	): Promise<boolean> {
+		const scriptName = path.basename(item.uri.fsPath);
+		const pythonPath = getVirtualEnvironmentPython(environmentPath);
+		if (!(await uriExists(vscode.Uri.file(pythonPath)))) {
+			if (environmentPath !== getSharedPythonEnvironmentPath()) {
+				void vscode.window.showErrorMessage(`No Python virtual environment found at "${environmentPath}" for "${scriptName}".`);
+				return false;
+			}
+
+			const basePython = await resolveInterpreterCommand(item.descriptor);
+			if (!basePython) {
+				void vscode.window.showErrorMessage('No Python interpreter found to create the shared QuickIt environment.');
+				return false;
+			}
+
+			await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Notification, title: 'QuickIt: Creating the shared Python environment' },
+				() => runToolchainCommand(basePython, ['-m', 'venv', environmentPath])
+			);
+		}
+
+		const installedDependenciesPath = path.join(environmentPath, INSTALLED_DEPENDENCIES_FILE_NAME);
+		let installedDependencies: string[] = [];
+		try {
+			const parsed: unknown = JSON.parse(await fs.promises.readFile(installedDependenciesPath, 'utf8'));
+			installedDependencies = Array.isArray(parsed) ? parsed.filter((entry): entry is string => typeof entry === 'string') : [];
+		} catch {
+			// Nothing installed by QuickIt yet.
+		}
+
+		const missingDependencies = dependencies.filter((dependency) => !installedDependencies.includes(dependency));
+		if (missingDependencies.length === 0) {
+			return true;
+		}
+
+		if (!interactive) {
+			getOutputChannel().appendLine(
+				`[QuickIt] Skipped "${scriptName}" because its dependencies are not installed yet: ${missingDependencies.join(', ')}. Run it once by hand to install them.`
+			);
+			return false;
+		}
+
+		const confirmation = await vscode.window.showWarningMessage(
+			`"${scriptName}" needs ${missingDependencies.join(', ')}. Install into ${environmentPath}?`,
+			{ modal: true, detail: 'Packages are installed with pip and can run code while installing. Only install packages you trust.' },
+			'Install'
+		);
+		if (confirmation !== 'Install') {
+			return false;
+		}
+
+		await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Notification, title: `QuickIt: Installing dependencies for ${scriptName}` },
+			() => runToolchainCommand(quoteInterpreterPath(pythonPath), ['-m', 'pip', 'install', ...missingDependencies])
+		);
+		await fs.promises.writeFile(installedDependenciesPath, JSON.stringify([...installedDependencies, ...missingDependencies], undefined, 2));
+		return true;
+	}
+
+	async function runToolchainCommand(command: string, commandArguments: readonly string[]): Promise<void> {
+		const [executable, ...executableArguments] = parseCommandArguments(command);
+		const outputChannel = getOutputChannel();
+		outputChannel.appendLine(`[QuickIt] ${[command, ...commandArguments].join(' ')}`);
+		try {
+			const { stdout, stderr } = await execFile(executable, [...executableArguments, ...commandArguments], {
+				timeout: TOOLCHAIN_COMMAND_TIMEOUT_MS,
+				maxBuffer: 10 * 1024 * 1024,
+				shell: process.platform === 'win32'
+			});
+			outputChannel.append(`${stdout}${stderr}`);
+		} catch (error) {
+			outputChannel.appendLine(toErrorMessage(error));
+			outputChannel.show(true);
+			throw new Error(`"${path.basename(executable)}" failed. See the QuickIt Output channel for details.`);
+		}
+	}
+
+	function getConcurrencyPolicySetting(): ConcurrencyPolicy {
+		return parseConcurrencyPolicy(getQuickItSettingValue('concurrency') ?? '') ?? 'parallel';
+	}
+
+	async function acquireConcurrencySlot(run: ActiveRun, policy: ConcurrencyPolicy): Promise<(() => void) | undefined> {
+		const scriptName = path.basename(run.script.uri.fsPath);
+		const reservation = reserveRunSlot(activeRuns, run, policy, stopRuns);
+		if (run.queued) {
+			scriptsTreeProvider.refresh();
+			void vscode.window.showInformationMessage(`QuickIt: Queued "${scriptName}" until its previous run finishes.`);
+		}
+
+		const releaseSlot = await reservation;
+		if (releaseSlot === 'alreadyRunning') {
+			void vscode.window.showWarningMessage(`QuickIt: "${scriptName}" is already running.`);
+			return undefined;
+		}
+
+		if (releaseSlot === 'stopped') {
+			updateRunningState();
+			return undefined;
+		}
+
+		return releaseSlot;
+	}
+
+	async function stopRuns(runs: readonly ActiveRun[]): Promise<void> {
+		for (const run of runs) {
+			run.stopRequested = true;
+			run.terminate?.();
+		}
+
+		await Promise.all(runs.map((run) => run.finished));
+	}
+
+	async function recordRunHistory(entry: RunHistoryEntry): Promise<void> {
+		try {
+			await runHistoryStore.add(entry, getRunHistoryMaxEntries());
+			runHistoryTreeProvider.refresh();
+			// With history turned off nothing references the new log, so it stays until the next run is recorded.
+			await pruneRunLogs(entry.logPath);
+		} catch (error) {
+			console.error(`[QuickIt] Failed to record run history: ${toErrorMessage(error)}`);
+		}
+	}
+
+	function areSchedulesEnabled(): boolean {
+		return getQuickItSetting<boolean>('schedules.enabled', true);
+	}
+
+	function isSchedulePaused(uri: vscode.Uri): boolean {
+		return context.globalState.get<string[]>(PAUSED_SCHEDULES_STATE_KEY, []).includes(uri.toString());
+	}
+
+	async function setSchedulePausedForItem(item: ScriptItem | undefined, paused: boolean): Promise<void> {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt script selected.');
+				return;
+			}
+
+			const scriptUri = item.uri.toString();
+			const pausedSchedules = context.globalState.get<string[]>(PAUSED_SCHEDULES_STATE_KEY, []).filter((uri) => uri !== scriptUri);
+			await context.globalState.update(PAUSED_SCHEDULES_STATE_KEY, paused ? [...pausedSchedules, scriptUri] : pausedSchedules);
+			scriptsTreeProvider.refresh();
+		} catch (error) {
+			notifyQuickItError(`QuickIt failed to ${paused ? 'pause' : 'resume'} the schedule`, error);
+		}
+	}
+
+	async function setFavoriteForItem(item: ScriptItem | undefined, favorite: boolean): Promise<void> {
+		try {
+			if (!item) {
+				void vscode.window.showErrorMessage('No QuickIt script selected.');
+				return;
+			}
+
+			const scriptUri = item.uri.toString();
+			const favorites = context.globalState.get<string[]>(FAVORITE_SCRIPTS_STATE_KEY, []).filter((uri) => uri !== scriptUri);
+			await context.globalState.update(FAVORITE_SCRIPTS_STATE_KEY, favorite ? [...favorites, scriptUri] : favorites);
+			scriptsTreeProvider.refresh();
+		} catch (error) {
+			notifyQuickItError(`QuickIt failed to ${favorite ? 'add the script to' : 'remove the script from'} favorites`, error);
+		}
+	}
+
+	function setScriptsFilter(filter: string | undefined): void {
+		scriptsFilter = filter?.trim() || undefined;
+		scriptsTreeView.message = scriptsFilter ? `Filtered by "${scriptsFilter}"` : undefined;
+		void vscode.commands.executeCommand('setContext', 'quickIt.scriptsFiltered', scriptsFilter !== undefined);
+		scriptsTreeProvider.refresh();
+	}
+
+	function getEnvironmentProfileNames(): string[] {
+		return [...new Set([...Object.keys(configuredEnvironmentProfiles), ...environmentSecretStore.getProfileNames()])]
+			.sort((left, right) => left.localeCompare(right, undefined, { sensitivity: 'base' }));
+	}
+
+	function getActiveEnvironmentProfileName(): string | undefined {
+		const name = context.globalState.get<string>(ACTIVE_ENVIRONMENT_PROFILE_STATE_KEY);
+		return name !== undefined && getEnvironmentProfileNames().includes(name) ? name : undefined;
+	}
+
+	async function getActiveEnvironmentProfile(): Promise<EnvironmentProfile | undefined> {
+		const name = getActiveEnvironmentProfileName();
+		return name === undefined
+			? undefined
+			: { name, variables: configuredEnvironmentProfiles[name] ?? {}, secrets: await environmentSecretStore.get(name) };
+	}
+
+	function updateEnvironmentProfileDescription(): void {
+		const name = getActiveEnvironmentProfileName();
+		scriptsTreeView.description = name === undefined ? undefined : `Profile: ${name}`;
+	}
+
+	async function selectEnvironmentProfile(): Promise<void> {
+		const activeName = getActiveEnvironmentProfileName();
+		const selection = await vscode.window.showQuickPick(
+			[
+				{ label: 'No Profile', description: activeName === undefined ? 'Active' : undefined, action: 'select' as const, profile: undefined },
+				...getEnvironmentProfileNames().map((name) => ({
+					label: name,
+					description: [
+						`${Object.keys(configuredEnvironmentProfiles[name] ?? {}).length} variables`,
+						`${environmentSecretStore.getNames(name).length} secrets`,
+						...(name === activeName ? ['Active'] : [])
+					].join(' · '),
+					action: 'select' as const,
+					profile: name
+				})),
+				{ label: '$(add) New Profile...', description: undefined, action: 'create' as const, profile: undefined }
+			],
+			{ title: 'QuickIt: Environment Profile', placeHolder: 'Select the profile whose variables and secrets scripts run with' }
+		);
+		if (!selection) {
+			return;
+		}
+
+		let profile = selection.profile;
+		if (selection.action === 'create') {
+			profile = await vscode.window.showInputBox({
+				title: 'QuickIt: New Environment Profile',
+				prompt: 'Profile name, such as dev or staging',
+				validateInput: (value) => {
+					const name = value.trim();
+					if (!name) {
+						return 'Enter a profile name.';
+					}
+
+					return getEnvironmentProfileNames().includes(name) ? `A profile named "${name}" already exists.` : undefined;
+				}
+			});
+			if (profile === undefined) {
+				return;
+			}
+
+			profile = profile.trim();
+			const profiles = getQuickItSetting<Record<string, unknown>>('environmentProfiles', {});
+			await vscode.workspace.getConfiguration('quickIt').update(
+				'environmentProfiles',
+				{ ...profiles, [profile]: {} },
+				vscode.ConfigurationTarget.Global
+			);
+			loadEnvironmentProfiles();
+		}
+
+		await context.globalState.update(ACTIVE_ENVIRONMENT_PROFILE_STATE_KEY, profile);
+		updateEnvironmentProfileDescription();
+		if (selection.action === 'create' && profile !== undefined) {
+			const createdProfile = profile;
+			const choice = await vscode.window.showInformationMessage(
+				`QuickIt: Created the "${createdProfile}" profile. Add plain variables in the quickIt.environmentProfiles setting.`,
+				'Add Secret...'
+			);
+			if (choice === 'Add Secret...') {
+				await addEnvironmentSecret(createdProfile);
+			}
+		}
+	}
+
+	async function manageEnvironmentSecrets(): Promise<void> {
+		const profileNames = getEnvironmentProfileNames();
+		if (profileNames.length === 0) {
+			const choice = await vscode.window.showInformationMessage('QuickIt has no environment profiles yet.', 'New Profile...');
+			if (choice === 'New Profile...') {
+				await selectEnvironmentProfile();
+			}
+
+			return;
+		}
+
+		const activeName = getActiveEnvironmentProfileName();
+		const profile = profileNames.length === 1
+			? profileNames[0]
+			: (await vscode.window.showQuickPick(
+				profileNames.map((name) => ({ label: name, description: name === activeName ? 'Active' : undefined })),
+				{ title: 'QuickIt: Manage Environment Secrets', placeHolder: 'Select a profile' }
+			))?.label;
+		if (profile === undefined) {
+			return;
+		}
+
+		const selection = await vscode.window.showQuickPick(
+			[
+				{ label: '$(add) Add Secret...', name: undefined },
+				...environmentSecretStore.getNames(profile).map((name) => ({ label: name, name }))
+			],
+			{ title: `QuickIt: Secrets in "${profile}"`, placeHolder: 'Add a secret, or select one to change or remove it' }
+		);
+		if (!selection) {
+			return;
+		}
+
+		if (selection.name === undefined) {
+			await addEnvironmentSecret(profile);
+			return;
+		}
+
+		const action = await vscode.window.showQuickPick(['Change Value...', 'Remove Secret'], { title: `QuickIt: ${selection.name}` });
+		if (action === 'Change Value...') {
+			await setEnvironmentSecretValue(profile, selection.name);
+		} else if (action === 'Remove Secret') {
+			await environmentSecretStore.remove(profile, selection.name);
+			void vscode.window.showInformationMessage(`QuickIt: Removed "${selection.name}" from "${profile}".`);
+		}
+	}
+
+	async function addEnvironmentSecret(profile: string): Promise<void> {
+		const name = await vscode.window.showInputBox({
+			title: `QuickIt: New Secret in "${profile}"`,
+			prompt: 'Environment variable name, such as API_TOKEN',
+			validateInput: (value) => ENVIRONMENT_VARIABLE_NAME_PATTERN.test(value.trim())
+				? undefined
+				: 'Use letters, digits and underscores, and do not start with a digit.'
+		});
+		if (name !== undefined) {
+			await setEnvironmentSecretValue(profile, name.trim());
+		}
+	}
+
+	async function setEnvironmentSecretValue(profile: string, name: string): Promise<void> {
+		const value = await vscode.window.showInputBox({
+			title: `QuickIt: ${name} in "${profile}"`,
+			prompt: 'Secret value. It is kept in VS Code secret storage and never written to settings.',
+			password: true,
+			ignoreFocusOut: true
+		});
+		if (value === undefined) {
+			return;
+		}
+
+		await environmentSecretStore.set(profile, name, value);
+		updateEnvironmentProfileDescription();
+		void vscode.window.showInformationMessage(`QuickIt: Saved "${name}" in "${profile}".`);
+	}
+
+	function getScriptGroupingSetting(): ScriptGrouping {
+		const configuredGrouping = getQuickItSettingValue('scripts.groupBy');
+		return SCRIPT_GROUPINGS.find((entry) => entry.grouping === configuredGrouping)?.grouping ?? 'folder';
+	}
+
+	function requestAutomationRefresh(): void {
+		clearTimeout(automationRefreshTimer);
+		automationRefreshTimer = setTimeout(() => {
+			void refreshAutomation();
+		}, 500);
+	}
+
+	async function refreshAutomation(): Promise<void> {
+		try {
+			const now = Date.now();
+			const discoveredSchedules = new Map<string, ScheduledScript>();
+			const discoveredTriggers = new Map<string, TriggeredScript>();
+			for (const { uri, descriptor } of await listScripts()) {
+				const { schedule, triggers } = await readScriptMetadata(uri, descriptor);
+				const scriptKey = uri.toString();
+				if (triggers.length > 0) {
+					discoveredTriggers.set(scriptKey, { script: { uri, descriptor }, triggers });
+				}
+
+				if (!schedule) {
+					continue;
+				}
+
+				const existingSchedule = scheduledScripts.get(scriptKey);
+				discoveredSchedules.set(scriptKey, {
+					script: { uri, descriptor },
+					schedule,
+					nextRunAt: existingSchedule?.schedule.expression === schedule.expression
+						? existingSchedule.nextRunAt
+						: getNextScheduleTime(schedule, now)
+				});
+			}
+
+			scheduledScripts.clear();
+			for (const [scriptKey, scheduledScript] of discoveredSchedules) {
+				scheduledScripts.set(scriptKey, scheduledScript);
+			}
+
+			triggeredScripts.clear();
+			for (const [scriptKey, triggeredScript] of discoveredTriggers) {
+				triggeredScripts.set(scriptKey, triggeredScript);
+			}
+
+			if ([...triggeredScripts.values()].some(({ triggers }) => triggers.some((trigger) => trigger.event === 'branchChange'))) {
+				void watchGitBranches();
+			}
+
+			scriptsTreeProvider.refresh();
+			await refreshStatusBarPins();
+			await pruneScheduleLocks(now);
+		} catch (error) {
+			console.error(`[QuickIt] Failed to refresh scheduled and triggered scripts: ${toErrorMessage(error)}`);
+		}
+	}
+
+	async function runDueSchedules(): Promise<void> {
+		try {
+			await startDueScheduledRuns();
+		} catch (error) {
+			getOutputChannel().appendLine(`[QuickIt] Failed to start scheduled runs: ${toErrorMessage(error)}`);
+		}
+	}
+
+	async function startDueScheduledRuns(): Promise<void> {
+		const now = Date.now();
+		for (const [scheduleKey, scheduledScript] of scheduledScripts) {
+			const occurrence = scheduledScript.nextRunAt;
+			if (occurrence === undefined || occurrence > now) {
+				continue;
+			}
+
+			scheduledScript.nextRunAt = getNextScheduleTime(scheduledScript.schedule, now);
+			scriptsTreeProvider.refresh();
+			// Like triggers, schedules run scripts without asking, so they wait until the workspace is trusted.
+			if (!vscode.workspace.isTrusted || !areSchedulesEnabled() || isSchedulePaused(scheduledScript.script.uri)) {
+				continue;
+			}
+
+			const scriptName = path.basename(scheduledScript.script.uri.fsPath);
+			const occurrenceLabel = new Date(occurrence).toLocaleString();
+			if (now - occurrence > SCHEDULE_MISSED_RUN_TOLERANCE_MS) {
+				getOutputChannel().appendLine(`[QuickIt] Skipped the ${occurrenceLabel} run of "${scriptName}" because it is more than a minute overdue.`);
+				continue;
+			}
+
+			if (getActiveRunsForScript(scheduledScript.script.uri).length > 0) {
+				getOutputChannel().appendLine(`[QuickIt] Skipped the ${occurrenceLabel} run of "${scriptName}" because the previous run is still going.`);
+				continue;
+			}
+
+			if (!(await claimScheduleOccurrence(scheduleKey, occurrence))) {
+				continue;
+			}
+
+			void runUnattendedScript(scheduledScript.script, 'Scheduled');
+		}
+	}
+
+	function areTriggersEnabled(): boolean {
+		return vscode.workspace.isTrusted && getQuickItSetting<boolean>('triggers.enabled', true);
+	}
+
+	function fireTriggers(matches: (trigger: ScriptTrigger) => boolean, variables: Readonly<Record<string, string>>): void {
+		if (!areTriggersEnabled()) {
+			return;
+		}
+
+		const debounceMs = Math.max(0, getQuickItSetting<number>('triggers.debounceMs', DEFAULT_TRIGGER_DEBOUNCE_MS));
+		for (const [scriptKey, triggeredScript] of triggeredScripts) {
+			if (!triggeredScript.triggers.some(matches)) {
+				continue;
+			}
+
+			// Bursts of events (save all, branch checkout) collapse into one run with the latest event's variables.
+			clearTimeout(triggerTimers.get(scriptKey));
+			triggerTimers.set(scriptKey, setTimeout(() => {
+				triggerTimers.delete(scriptKey);
+				if (areTriggersEnabled()) {
+					void runUnattendedScript(triggeredScript.script, 'Triggered', variables);
+				}
+			}, debounceMs));
+		}
+	}
+
+	function fireWorkspaceOpenTriggers(): void {
+		if ((vscode.workspace.workspaceFolders ?? []).length === 0) {
+			return;
+		}
+
+		fireTriggers((trigger) => trigger.event === 'workspaceOpen', { triggerEvent: 'workspaceOpen' });
+	}
+
+	async function watchGitBranches(): Promise<void> {
+		if (isWatchingGitBranches) {
+			return;
+		}
+
+		isWatchingGitBranches = true;
+		try {
+			const gitExtension = vscode.extensions.getExtension<{ getAPI(version: 1): GitApi }>('vscode.git');
+			if (!gitExtension) {
+				return;
+			}
+
+			const gitApi = (gitExtension.isActive ? gitExtension.exports : await gitExtension.activate()).getAPI(1);
+			const watchRepository = (repository: GitRepository): void => {
+				const repositoryKey = repository.rootUri.toString();
+				gitBranches.set(repositoryKey, repository.state.HEAD?.name);
+				context.subscriptions.push(repository.state.onDidChange(() => {
+					const branch = repository.state.HEAD?.name;
+					const previousBranch = gitBranches.get(repositoryKey);
+					gitBranches.set(repositoryKey, branch);
+					if (!branch || branch === previousBranch) {
+						return;
+					}
+
+					fireTriggers(
+						(trigger) => trigger.event === 'branchChange' && (!trigger.branch || trigger.branch === branch),
+						{ triggerEvent: 'branchChange', triggerBranch: branch, triggerRepository: repository.rootUri.fsPath }
+					);
+				}));
+			};
+
+			gitApi.repositories.forEach(watchRepository);
+			context.subscriptions.push(gitApi.onDidOpenRepository(watchRepository));
+		} catch (error) {
+			console.error(`[QuickIt] Failed to watch git branches: ${toErrorMessage(error)}`);
+		}
+	}
+
+	async function runUnattendedScript(
+		script: ScriptReference,
+		runKind: 'Scheduled' | 'Triggered',
+		variables?: Readonly<Record<string, string>>
+	): Promise<void> {
+		const scriptName = path.basename(script.uri.fsPath);
+		if (getActiveRunsForScript(script.uri).length > 0) {
+			getOutputChannel().appendLine(`[QuickIt] Skipped a ${runKind.toLowerCase()} run of "${scriptName}" because the previous run is still going.`);
+			return;
+		}
+
+		const result = await runScript(script, { quiet: true, unattended: true, variables });
+		if (result?.exitCode !== undefined && result.exitCode !== 0) {
+			void vscode.window.showWarningMessage(`QuickIt: ${runKind} run of "${scriptName}" failed (exit code ${result.exitCode}).`);
+		}
+	}
+
+	async function claimScheduleOccurrence(scheduleKey: string, occurrence: number): Promise<boolean> {
+		// Every open window runs its own scheduler, so the first one to create the lock file runs the occurrence.
+		const locksDirectory = path.join(context.globalStorageUri.fsPath, SCHEDULE_LOCKS_DIRECTORY_NAME);
+		const lockName = `${createHash('sha1').update(scheduleKey).digest('hex')}-${occurrence}.lock`;
+		try {
+			await fs.promises.mkdir(locksDirectory, { recursive: true });
+			await fs.promises.writeFile(path.join(locksDirectory, lockName), String(process.pid), { flag: 'wx' });
+			return true;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+				return false;
+			}
+
+			console.error(`[QuickIt] Failed to lock scheduled run: ${toErrorMessage(error)}`);
+			return true;
+		}
+	}
+
+	async function pruneScheduleLocks(now: number): Promise<void> {
+		const locksDirectory = vscode.Uri.joinPath(context.globalStorageUri, SCHEDULE_LOCKS_DIRECTORY_NAME);
+		if (!(await uriExists(locksDirectory))) {
+			return;
+		}
+
+		for (const [entryName, fileType] of await vscode.workspace.fs.readDirectory(locksDirectory)) {
+			const occurrence = Number(/-(\d+)\.lock$/.exec(entryName)?.[1]);
+			if (fileType === vscode.FileType.File && occurrence < now - 24 * 60 * 60 * 1000) {
+				await vscode.workspace.fs.delete(vscode.Uri.joinPath(locksDirectory, entryName), { useTrash: false });
+			}
+		}
+	}
+
+	function getOutputChannel(): vscode.OutputChannel {
+		if (!outputChannel) {
+			outputChannel = vscode.window.createOutputChannel('QuickIt');
+			context.subscriptions.push(outputChannel);
+		}
+
+		return outputChannel;
+	}
+
+	function getRunLogPath(runId: string, scriptName: string): string {
+		return path.join(context.globalStorageUri.fsPath, RUN_LOGS_DIRECTORY_NAME, createRunLogFileName(runId, scriptName, new Date()));
+	}
+
+	async function pruneRunLogs(keptLogPath?: string): Promise<void> {
+		// Runs that are still going have no history entry yet, so their logs are kept explicitly.
+		await deleteUnreferencedRunLogs(vscode.Uri.joinPath(context.globalStorageUri, RUN_LOGS_DIRECTORY_NAME), [
+			...runHistoryStore.getAll().map((entry) => entry.logPath),
+			...[...activeRuns.values()].map((run) => run.logPath),
+			keptLogPath
+		]);
+	}
+
+	async function openRunLog(logPath: string): Promise<void> {
+		const logUri = vscode.Uri.file(logPath);
+		if (!(await uriExists(logUri))) {
+			void vscode.window.showErrorMessage('The log file for this run no longer exists.');
+			return;
+		}
+
+		const document = await vscode.workspace.openTextDocument(logUri);
+		await vscode.window.showTextDocument(document, { preview: true });
+	}
+
+	function getRunHistoryMaxEntries(): number {
+		const maxEntries = getQuickItSetting<number>('history.maxEntries', DEFAULT_RUN_HISTORY_MAX_ENTRIES);
+		return Number.isFinite(maxEntries) ? Math.max(0, Math.floor(maxEntries)) : DEFAULT_RUN_HISTORY_MAX_ENTRIES;
+	}
+
+	function getWorkingDirectorySetting(): WorkingDirectorySelection {
+		const configuredMode = getQuickItSettingValue('workingDirectory.mode');
+		const mode = WORKING_DIRECTORY_MODES.find((entry) => entry.mode === configuredMode)?.mode ?? 'workspaceFolder';
+		return { mode, path: getQuickItSettingValue('workingDirectory.path') };
+	}
+
+	async function resolveRunLocation(
+		scriptUri: vscode.Uri,
+		selection: WorkingDirectorySelection,
+		resolveInput?: (id: string) => Promise<string | undefined>,
+		substitutePath = true,
+		interactive = true
+	): Promise<RunLocation | undefined> {
+		const scriptDirectory = path.dirname(scriptUri.fsPath);
+		const activeDocumentUri = vscode.window.activeTextEditor?.document.uri;
+		const activeFile = activeDocumentUri?.scheme === 'file' ? activeDocumentUri.fsPath : undefined;
+		const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+
+		let workspaceFolder: vscode.WorkspaceFolder | undefined;
+		if (selection.mode === 'workspaceFolder') {
+			workspaceFolder = workspaceFolders[0];
+		} else if (selection.mode === 'pickWorkspaceFolder' && workspaceFolders.length > 1 && interactive) {
+			workspaceFolder = await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the working directory for the script' });
+			if (!workspaceFolder) {
+				return undefined;
+			}
+		} else {
+			workspaceFolder = (activeDocumentUri && vscode.workspace.getWorkspaceFolder(activeDocumentUri)) ?? workspaceFolders[0];
+		}
+
+		const variables = createRunVariables(scriptUri.fsPath, activeFile, workspaceFolder?.uri.fsPath);
+		let cwd: string;
+		switch (selection.mode) {
+		case 'workspaceFolder':
+		case 'pickWorkspaceFolder':
+			cwd = variables.workspaceFolder ?? scriptDirectory;
+			break;
+		case 'activeFileDirectory':
+			cwd = variables.fileDirname ?? variables.workspaceFolder ?? scriptDirectory;
+			break;
+		case 'scriptDirectory':
+			cwd = scriptDirectory;
+			break;
+		case 'custom': {
+			const customPath = selection.path && substitutePath
+				? await substituteVariables(selection.path, variables, resolveInput)
+				: selection.path ?? '';
+			if (customPath === undefined) {
+				return undefined;
+			}
+
+			cwd = customPath ? resolveScriptRelativePath(customPath, scriptDirectory) : scriptDirectory;
+			break;
+		}
+		}
+
+		return { cwd, variables: { ...variables, cwd } };
+	}
+
+	function getEditorVariables(): Record<string, string> {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			return {};
+		}
+
+		return {
+			selectedText: editor.document.getText(editor.selection),
+			lineNumber: String(editor.selection.active.line + 1)
+		};
+	}
+
+	function createInputResolver(
+		inputs: readonly ScriptInput[],
+		scriptName: string,
+		interactive = true
+	): (id: string) => Promise<string | undefined> {
+		const resolvedInputs = new Map<string, string>();
+		return async (id: string): Promise<string | undefined> => {
+			const cachedValue = resolvedInputs.get(id);
+			if (cachedValue !== undefined) {
+				return cachedValue;
+			}
+
+			if (!interactive) {
+				throw new Error(`"${scriptName}" asks for input "${id}", which cannot be prompted for during an unattended run.`);
+			}
+
+			const input = inputs.find((candidate) => candidate.id === id);
+			let value: string | undefined;
+			if (input?.type === 'pick') {
+				value = await vscode.window.showQuickPick([...input.options], {
+					title: `QuickIt: ${scriptName}`,
+					placeHolder: input.prompt ?? `Select a value for ${id}`,
+					ignoreFocusOut: true
+				});
+			} else {
+				value = await vscode.window.showInputBox({
+					title: `QuickIt: ${scriptName}`,
+					prompt: input?.prompt ?? `Enter a value for ${id}`,
+					password: input?.type === 'password',
+					ignoreFocusOut: true
+				});
+			}
+
+			if (value !== undefined) {
+				resolvedInputs.set(id, value);
+			}
+
+			return value;
+		};
+	}
+
+	async function pickWorkingDirectory(): Promise<WorkingDirectorySelection | undefined> {
+		const currentMode = getWorkingDirectorySetting().mode;
+		const selectedMode = await vscode.window.showQuickPick(
+			WORKING_DIRECTORY_MODES.map((entry) => ({
+				label: entry.label,
+				description: entry.mode === currentMode ? 'default' : undefined,
+				detail: entry.detail,
+				mode: entry.mode
+			})),
+			{ title: 'QuickIt: Run in Directory' }
+		);
+		if (!selectedMode) {
+			return undefined;
+		}
+
+		if (selectedMode.mode !== 'custom') {
+			return { mode: selectedMode.mode };
+		}
+
+		const selectedFolders = await vscode.window.showOpenDialog({
+			canSelectFiles: false,
+			canSelectFolders: true,
+			canSelectMany: false,
+			openLabel: 'Run Here'
+		});
+		if (!selectedFolders || selectedFolders.length === 0) {
+			return undefined;
+		}
+
+		return { mode: 'custom', path: selectedFolders[0].fsPath };
+	}
+
+	async function promptForArguments(item: ScriptItem): Promise<string[] | undefined> {
+		const argumentsInput = await vscode.window.showInputBox({
+			title: 'QuickIt: Script Arguments',
+			prompt: `Arguments for "${path.basename(item.uri.fsPath)}". Quote values that contain spaces; \${input:name} and other variables are resolved at run time.`,
+			placeHolder: '--verbose --name "my value"',
+			value: item.metadata.args ? formatArgumentsForDisplay(item.metadata.args) : undefined,
+			validateInput: (value) => {
+				try {
+					parseCommandArguments(value);
+					return undefined;
+				} catch (error) {
+					return toErrorMessage(error);
+				}
+			}
+		});
+		if (argumentsInput === undefined) {
+			return undefined;
+		}
+
+		return parseCommandArguments(argumentsInput);
+	}
+
+	function validateNewItemName(item: ScriptItem | PipelineItem | FolderItem, value: string): string | undefined {
+		if (item instanceof FolderItem) {
+			return validateFolderNameInput(value);
+		}
+
+		if (item instanceof PipelineItem) {
+			return validatePipelineNameInput(value);
+		}
+
+		return validateScriptNameInput(value, getNewScriptExtension(item, value));
+	}
+
+	function normalizeNewItemName(item: ScriptItem | PipelineItem | FolderItem, value: string): string {
+		if (item instanceof FolderItem) {
+			return value.trim();
+		}
+
+		if (item instanceof PipelineItem) {
+			return `${stripPipelineFileSuffix(value.trim())}${PIPELINE_FILE_SUFFIX}`;
+		}
+
+		return normalizeScriptFileName(value, getNewScriptExtension(item, value));
+	}
+
+	function getNewScriptExtension(item: ScriptItem, value: string): string {
+		const extension = normalizeExtension(path.extname(value.trim()));
+		return resolveDescriptorForExtension(extension) ? extension : item.descriptor.extension;
+	}
+
+	async function moveScriptFile(sourceUri: vscode.Uri, targetUri: vscode.Uri, overwrite: boolean): Promise<void> {
+		// Moving through a workspace edit keeps open editors on the file and fires onDidRenameFiles, which migrates script state.
+		const edit = new vscode.WorkspaceEdit();
+		edit.renameFile(sourceUri, targetUri, { overwrite });
+		if (!(await vscode.workspace.applyEdit(edit))) {
+			throw new Error(`Could not move "${path.basename(sourceUri.fsPath)}".`);
+		}
+	}
+
+	function getInterpreterSelection(uri: vscode.Uri | undefined, descriptor: ScriptDescriptor): InterpreterSelection | undefined {
+		const scriptInterpreter = uri ? context.globalState.get<Record<string, string>>(SCRIPT_INTERPRETERS_STATE_KEY, {})[uri.toString()] : undefined;
+		const languageInterpreter = descriptor.interpreterSetting
+			? getQuickItSettingValue(descriptor.interpreterSetting)
+			: context.globalState.get<Record<string, string>>(LANGUAGE_INTERPRETERS_STATE_KEY, {})[descriptor.extension];
+		const command = scriptInterpreter ?? languageInterpreter;
+		if (!command) {
+			return undefined;
+		}
+
+		return { command, scope: scriptInterpreter ? 'script' : 'language', version: knownInterpreterVersions.get(command) };
+	}
+
+	function getInterpreterVersion(command: string): Promise<string | undefined> {
+		let version = interpreterVersions.get(command);
+		if (!version) {
+			version = detectInterpreterVersion(command).then((detectedVersion) => {
+				if (detectedVersion) {
+					knownInterpreterVersions.set(command, detectedVersion);
+				}
+
+				return detectedVersion;
+			});
+			interpreterVersions.set(command, version);
+		}
+
+		return version;
+	}
+
+	async function selectInterpreter(descriptor: ScriptDescriptor, scriptUri?: vscode.Uri): Promise<void> {
+		const hints = INTERPRETER_DISCOVERY_HINTS[descriptor.extension];
+		interpreterVersions.clear();
+		const discoveredInterpreters = await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Window, title: `QuickIt: Looking for ${descriptor.label} interpreters` },
+			async () => {
+				const commands = await discoverInterpreterCommands(
+					[...new Set([...descriptor.getDefaultInterpreters(), ...hints?.commands ?? []])],
+					hints?.directories ?? []
+				);
+				return await Promise.all(commands.map(async (command): Promise<DiscoveredInterpreter> => ({
+					command,
+					version: await getInterpreterVersion(quoteInterpreterPath(command))
+				})));
+			}
+		);
+		const currentCommand = getInterpreterSelection(scriptUri, descriptor)?.command;
+		const enterPathAction = 'Enter Interpreter Path...';
+		const selection = await vscode.window.showQuickPick(
+			[
+				...discoveredInterpreters.map((interpreter) => ({
+					label: `${path.basename(interpreter.command)}${interpreter.version ? ` ${interpreter.version}` : ''}`,
+					description: quoteInterpreterPath(interpreter.command) === currentCommand ? 'current' : undefined,
+					detail: interpreter.command,
+					command: quoteInterpreterPath(interpreter.command) as string | undefined
+				})),
+				{ label: `$(folder-opened) ${enterPathAction}`, description: undefined, detail: undefined, command: enterPathAction },
+				{
+					label: scriptUri ? '$(discard) Use Language Default' : '$(search) Detect Automatically',
+					description: currentCommand ? undefined : 'current',
+					detail: undefined,
+					command: undefined
+				}
+			],
+			{
+				title: scriptUri
+					? `QuickIt: Interpreter for ${path.basename(scriptUri.fsPath)}`
+					: `QuickIt: Interpreter for ${descriptor.label}`,
+				placeHolder: discoveredInterpreters.length > 0 ? undefined : 'No interpreters found on PATH or in common locations'
+			}
+		);
+		if (!selection) {
+			return;
+		}
+
+		let command = selection.command;
+		if (command === enterPathAction) {
+			const [interpreterUri] = await vscode.window.showOpenDialog({ title: 'QuickIt: Select Interpreter', canSelectMany: false }) ?? [];
+			if (!interpreterUri) {
+				return;
+			}
+
+			command = quoteInterpreterPath(interpreterUri.fsPath);
+		}
+
+		if (scriptUri) {
+			const scriptInterpreters = { ...context.globalState.get<Record<string, string>>(SCRIPT_INTERPRETERS_STATE_KEY, {}) };
+			if (command) {
+				scriptInterpreters[scriptUri.toString()] = command;
+			} else {
+				delete scriptInterpreters[scriptUri.toString()];
+			}
+			await context.globalState.update(SCRIPT_INTERPRETERS_STATE_KEY, scriptInterpreters);
+		} else if (descriptor.interpreterSetting) {
+			await vscode.workspace.getConfiguration('quickIt').update(descriptor.interpreterSetting, command ?? '', vscode.ConfigurationTarget.Global);
+		} else {
+			const languageInterpreters = { ...context.globalState.get<Record<string, string>>(LANGUAGE_INTERPRETERS_STATE_KEY, {}) };
+			if (command) {
+				languageInterpreters[descriptor.extension] = command;
+			} else {
+				delete languageInterpreters[descriptor.extension];
+			}
+			await context.globalState.update(LANGUAGE_INTERPRETERS_STATE_KEY, languageInterpreters);
+		}
+
+		scriptsTreeProvider.refresh();
+	}
+
+	async function migrateScriptState(files: readonly { readonly oldUri: vscode.Uri; readonly newUri: vscode.Uri }[]): Promise<void> {
+		try {
+			for (const { oldUri, newUri } of files) {
+				await argumentPresetStore.move(oldUri, newUri);
+				await statusBarPinStore.move(oldUri, newUri);
+				await runHistoryStore.move(oldUri, newUri);
+				await scriptOrderStore.move(oldUri, newUri);
+				for (const stateKey of [FAVORITE_SCRIPTS_STATE_KEY, PAUSED_SCHEDULES_STATE_KEY]) {
+					const uris = context.globalState.get<string[]>(stateKey, []);
+					await context.globalState.update(stateKey, uris.map((uri) => remapMovedUri(uri, oldUri, newUri) ?? uri));
+				}
+
+				const scriptInterpreters: Record<string, string> = {};
+				for (const [uri, command] of Object.entries(context.globalState.get<Record<string, string>>(SCRIPT_INTERPRETERS_STATE_KEY, {}))) {
+					scriptInterpreters[remapMovedUri(uri, oldUri, newUri) ?? uri] = command;
+				}
+				await context.globalState.update(SCRIPT_INTERPRETERS_STATE_KEY, scriptInterpreters);
+			}
+		} catch (error) {
+			console.error(`[QuickIt] Failed to update script state after a rename: ${toErrorMessage(error)}`);
+		}
+	}
+
+	async function resolveConflictingUri(
+		targetUri: vscode.Uri,
+		displayName: string
+	): Promise<{ uri: vscode.Uri; overwrite: boolean } | 'skip' | undefined> {
+		if (!(await uriExists(targetUri))) {
+			return { uri: targetUri, overwrite: false };
+		}
+
+		const selection = await vscode.window.showWarningMessage(
+			`A script named "${displayName}" already exists in the target folder.`,
+			{ modal: true },
+			'Rename',
+			'Overwrite',
+			'Skip'
+		);
+		switch (selection) {
+		case 'Rename':
+			return { uri: await findAvailableUri(targetUri), overwrite: false };
+		case 'Overwrite':
+			return { uri: targetUri, overwrite: true };
+		case 'Skip':
+			return 'skip';
+		default:
+			return undefined;
+		}
+	}
+
+	async function handleScriptsDrop(target: QuickItTreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+		try {
+			if (target && !(target instanceof LibraryItem || target instanceof FolderItem || target instanceof ScriptItem || target instanceof PipelineItem)) {
+				return;
+			}
+
+			const targetDirectory = await resolveTargetDirectory(target);
+			const treeItems: unknown = dataTransfer.get(SCRIPTS_TREE_MIME_TYPE)?.value;
+			if (Array.isArray(treeItems)) {
+				const placedNames: string[] = [];
+				for (const item of treeItems) {
+					if (!(item instanceof ScriptItem || item instanceof PipelineItem || item instanceof FolderItem) || isReadOnlyTreeItem(item)) {
+						continue;
+					}
+
+					const fileName = path.basename(item.uri.fsPath);
+					const targetUri = vscode.Uri.joinPath(targetDirectory, fileName);
+					if (targetUri.toString() === item.uri.toString()) {
+						if (!(item instanceof FolderItem)) {
+							placedNames.push(fileName);
+						}
+
+						continue;
+					}
+
+					if (isPathInside(item.uri.fsPath, targetDirectory.fsPath)) {
+						continue;
+					}
+
+					const destination = await resolveConflictingUri(targetUri, fileName);
+					if (!destination) {
+						break;
+					}
+
+					if (destination !== 'skip') {
+						await moveScriptFile(item.uri, destination.uri, destination.overwrite);
+						if (!(item instanceof FolderItem)) {
+							placedNames.push(path.basename(destination.uri.fsPath));
+						}
+					}
+				}
+
+				// Dropping onto a script places the dragged scripts just above it.
+				if ((target instanceof ScriptItem || target instanceof PipelineItem) && placedNames.length > 0) {
+					await placeScriptsBefore(targetDirectory, placedNames, path.basename(target.uri.fsPath));
+					scriptsTreeProvider.refresh();
+				}
+
+				return;
+			}
+
+			const uriList = await dataTransfer.get('text/uri-list')?.asString();
+			const droppedUris = (uriList ?? '')
+				.split(/\r?\n/)
+				.map((line) => line.trim())
+				.filter((line) => line && !line.startsWith('#'))
+				.map((line) => vscode.Uri.parse(line));
+			let importedCount = 0;
+			for (const uri of droppedUris) {
+				const fileName = path.basename(uri.fsPath);
+				const targetUri = vscode.Uri.joinPath(targetDirectory, fileName);
+				if (targetUri.toString() === uri.toString()) {
+					continue;
+				}
+
+				const destination = await resolveConflictingUri(targetUri, fileName);
+				if (!destination) {
+					break;
+				}
+
+				if (destination !== 'skip') {
+					await vscode.workspace.fs.copy(uri, destination.uri, { overwrite: destination.overwrite });
+					importedCount++;
+				}
+			}
+
+			if (importedCount > 0) {
+				scriptsTreeProvider.refresh();
+				requestAutomationRefresh();
+				void vscode.window.showInformationMessage(`QuickIt: Imported ${importedCount} ${importedCount === 1 ? 'item' : 'items'}.`);
+			}
+		} catch (error) {
+			notifyQuickItError('QuickIt failed to handle the dropped items', error);
+		}
+	}
+
+	async function placeScriptsBefore(directory: vscode.Uri, names: readonly string[], anchorName: string): Promise<void> {
+		const scriptNames = (await vscode.workspace.fs.readDirectory(directory))
+			.filter(([name, fileType]) => fileType === vscode.FileType.File && (isPipelineFileName(name) || resolveDescriptorForUri(vscode.Uri.joinPath(directory, name))))
+			.map(([name]) => name)
+			.sort((left, right) => left.localeCompare(right, undefined, { sensitivity: 'base' }));
+		const currentOrder = sortByScriptOrder(scriptNames.map((name) => ({ name, uri: vscode.Uri.joinPath(directory, name) })), scriptOrderStore.get(directory))
+			.map(({ name }) => name)
+			.filter((name) => !names.includes(name));
+		const anchorIndex = currentOrder.indexOf(anchorName);
+		currentOrder.splice(anchorIndex < 0 ? currentOrder.length : anchorIndex, 0, ...names);
+		await scriptOrderStore.set(directory, currentOrder);
+	}
+
+	async function resolveTargetDirectory(item?: QuickItTreeItem): Promise<vscode.Uri> {
+		if (item && isReadOnlyTreeItem(item)) {
+			throw new Error('This script library is read-only.');
+		}
+
+		if (item instanceof LibraryItem || item instanceof FolderItem) {
+			return item.uri;
+		}
+
+		if (item instanceof ScriptItem || item instanceof PipelineItem) {
+			return vscode.Uri.joinPath(item.uri, '..');
+		}
+
+		return await getScriptsDirectory();
+	}
+
+	async function resolveInterpreterCommand(descriptor: ScriptDescriptor, uri?: vscode.Uri): Promise<string | undefined> {
+		const selectedInterpreter = getInterpreterSelection(uri, descriptor);
+		if (selectedInterpreter) {
+			return selectedInterpreter.command;
+		}
+
+		for (const candidate of descriptor.getDefaultInterpreters()) {
+			if (await isCommandAvailable(candidate)) {
+				return candidate;
+			}
+		}
+
+		return undefined;
+	}
+}
+
+export function deactivate(): void {
+}
+
+async function showSafetyNoticeOnce(context: vscode.ExtensionContext): Promise<void> {
+	const hasShownNotice = context.globalState.get<boolean>(SAFETY_NOTICE_STATE_KEY);
+	if (hasShownNotice) {
+		return;
+	}
+
+	void vscode.window.showWarningMessage('QuickIt runs local scripts. Only run scripts and interpreters you trust.');
+	await context.globalState.update(SAFETY_NOTICE_STATE_KEY, true);
+}
+
+async function resolveScriptsDirectory(
+	context: vscode.ExtensionContext,
+	getQuickItSettingValue: (settingPath: string) => string | undefined
+): Promise<vscode.Uri> {
+	const configuredDirectory = getQuickItSettingValue('scriptDirectory');
+	if (configuredDirectory) {
+		return vscode.Uri.file(resolveDirectoryPath(configuredDirectory));
+	}
+
+	return vscode.Uri.joinPath(context.globalStorageUri, 'scripts');
+}
 
 async function ensureScriptsDirectoryExists(getScriptsDirectory: () => Promise<vscode.Uri>): Promise<void> {
 	try {
@@ -526,100 +4964,1008 @@ async function ensureScriptsDirectoryExists(getScriptsDirectory: () => Promise<v
 	}
 }
 
-async function isInScriptsDirectory(
-	uri: vscode.Uri,
-	getScriptsDirectory: () => Promise<vscode.Uri>
+async function isInScriptLibrary(
+	uri: vscode.Uri,
+	getScriptLibraries: () => Promise<ScriptLibrary[]>
+): Promise<boolean> {
+	if (uri.scheme !== 'file') {
+		return false;
+	}
+
+	return (await getScriptLibraries()).some((library) => library.uri.scheme === 'file' && isPathInside(library.uri.fsPath, uri.fsPath));
+}
+
+function normalizeExtension(extension: string): string {
+	const normalizedValue = extension.trim().toLowerCase();
+	if (!normalizedValue) {
+		return '';
+	}
+
+	return normalizedValue.startsWith('.') ? normalizedValue : `.${normalizedValue}`;
+}
+
+function normalizeScriptFileName(rawName: string, extension: string): string {
+	const trimmedName = rawName.trim();
+	const normalizedExtension = normalizeExtension(extension);
+	const existingExtension = normalizeExtension(path.extname(trimmedName));
+	if (existingExtension && existingExtension === normalizedExtension) {
+		return trimmedName;
+	}
+
+	return `${trimmedName}${normalizedExtension}`;
+}
+
+function validateScriptNameInput(value: string, extension: string): string | undefined {
+	const trimmedValue = value.trim();
+	if (!trimmedValue) {
+		return 'Script name is required.';
+	}
+
+	const segmentError = validateFileNameSegment(trimmedValue);
+	if (segmentError) {
+		return segmentError;
+	}
+
+	const expectedExtension = normalizeExtension(extension);
+	if (trimmedValue.toLowerCase() === expectedExtension) {
+		return `Enter a file name before ${expectedExtension}.`;
+	}
+
+	const fileNameBase = path.parse(trimmedValue).name.toLowerCase();
+	if (WINDOWS_RESERVED_BASENAMES.has(fileNameBase)) {
+		return 'Name is reserved on Windows.';
+	}
+
+	const providedExtension = normalizeExtension(path.extname(trimmedValue));
+	if (providedExtension && providedExtension !== expectedExtension) {
+		return `Use ${expectedExtension} or leave the extension blank.`;
+	}
+
+	return undefined;
+}
+
+function validateFolderNameInput(value: string): string | undefined {
+	const trimmedValue = value.trim();
+	if (!trimmedValue) {
+		return 'Folder name is required.';
+	}
+
+	const segmentError = validateFileNameSegment(trimmedValue);
+	if (segmentError) {
+		return segmentError;
+	}
+
+	if (trimmedValue.startsWith('.')) {
+		return 'Folder names starting with a period are hidden from QuickIt.';
+	}
+
+	if (WINDOWS_RESERVED_BASENAMES.has(trimmedValue.toLowerCase())) {
+		return 'Name is reserved on Windows.';
+	}
+
+	return undefined;
+}
+
+function validateFileNameSegment(trimmedValue: string): string | undefined {
+	if (trimmedValue === '.' || trimmedValue === '..') {
+		return 'Enter a valid name.';
+	}
+
+	if (/[\\/]/.test(trimmedValue)) {
+		return 'Use only a file name, not a path.';
+	}
+
+	if (/[<>:"|?*\x00-\x1F]/.test(trimmedValue)) {
+		return 'Name contains invalid filename characters.';
+	}
+
+	if (/[. ]$/.test(trimmedValue)) {
+		return 'Name cannot end with a period or space.';
+	}
+
+	return undefined;
+}
+
+function validatePipelineNameInput(value: string): string | undefined {
+	const trimmedValue = stripPipelineFileSuffix(value.trim());
+	if (!trimmedValue) {
+		return 'Pipeline name is required.';
+	}
+
+	const segmentError = validateFileNameSegment(trimmedValue);
+	if (segmentError) {
+		return segmentError;
+	}
+
+	if (WINDOWS_RESERVED_BASENAMES.has(trimmedValue.toLowerCase())) {
+		return 'Name is reserved on Windows.';
+	}
+
+	return undefined;
+}
+
+function stripPipelineFileSuffix(value: string): string {
+	return isPipelineFileName(value) ? value.slice(0, -PIPELINE_FILE_SUFFIX.length) : value;
+}
+
+function resolveDirectoryPath(inputPath: string): string {
+	const expandedPath = inputPath === '~'
+		? os.homedir()
+		: inputPath.startsWith('~/') || inputPath.startsWith('~\\')
+			? path.join(os.homedir(), inputPath.slice(2))
+			: inputPath;
+	return path.isAbsolute(expandedPath)
+		? expandedPath
+		: path.resolve(os.homedir(), expandedPath);
+}
+
+function findLibraryForUri(libraries: readonly ScriptLibrary[], uri: vscode.Uri): ScriptLibrary | undefined {
+	// Libraries can be nested (a team clone inside the personal folder), so the deepest match wins.
+	return libraries
+		.filter((library) => isPathInside(library.uri.fsPath, uri.fsPath))
+		.sort((left, right) => right.uri.fsPath.length - left.uri.fsPath.length)[0];
+}
+
+function getNestedLibraryRoots(libraries: readonly ScriptLibrary[], library: Pick<ScriptLibrary, 'uri'>): vscode.Uri[] {
+	// A library cloned inside another one is listed under its own root, so the outer walk skips it.
+	return libraries
+		.filter((candidate) => !isSamePath(candidate.uri.fsPath, library.uri.fsPath) && isPathInside(library.uri.fsPath, candidate.uri.fsPath))
+		.map((candidate) => candidate.uri);
+}
+
+function getPipelineStepCandidates(pipelineUri: vscode.Uri, scriptPath: string, libraries: readonly ScriptLibrary[]): string[] {
+	const pipelineLibrary = findLibraryForUri(libraries, pipelineUri);
+	const candidates = [
+		path.resolve(path.dirname(pipelineUri.fsPath), scriptPath),
+		...(pipelineLibrary ? [path.resolve(pipelineLibrary.uri.fsPath, scriptPath)] : []),
+		path.resolve(libraries[0].uri.fsPath, scriptPath)
+	].filter((candidate) => libraries.some((library) => isPathInside(library.uri.fsPath, candidate)));
+	if (candidates.length === 0) {
+		throw new Error(`Step "${scriptPath}" points outside the script libraries.`);
+	}
+
+	return candidates;
+}
+
+function getLibraryScriptPath(library: ScriptLibrary, uri: vscode.Uri, isPersonalLibrary: boolean): string {
+	const relativePath = path.relative(library.uri.fsPath, uri.fsPath).split(path.sep).join('/');
+	return isPersonalLibrary ? relativePath : `${library.name}/${relativePath}`;
+}
+
+function parseLibrarySettings(value: unknown): ScriptLibrary[] {
+	const libraries: ScriptLibrary[] = [];
+	for (const entry of Array.isArray(value) ? value : []) {
+		const name = isRecord(entry) ? optionalString(entry.name)?.trim() : undefined;
+		const libraryPath = isRecord(entry) ? optionalString(entry.path)?.trim() : undefined;
+		if (!name || !libraryPath || name.toLowerCase() === PERSONAL_LIBRARY_NAME.toLowerCase()) {
+			continue;
+		}
+
+		if (libraries.some((library) => library.name.toLowerCase() === name.toLowerCase())) {
+			continue;
+		}
+
+		libraries.push({
+			name,
+			uri: vscode.Uri.file(resolveDirectoryPath(libraryPath)),
+			readOnly: isRecord(entry) && entry.readOnly === true
+		});
+	}
+
+	return libraries;
+}
+
+async function matchesScriptFilter(
+	filter: string,
+	relativePath: string,
+	metadata: ScriptMetadata,
+	readContent: () => Promise<string>
 ): Promise<boolean> {
-	if (uri.scheme !== 'file') {
+	const tags = metadata.tags.map((tag) => tag.toLowerCase());
+	let content: string | undefined;
+	for (const term of filter.toLowerCase().split(/\s+/).filter(Boolean)) {
+		if (term.startsWith('#')) {
+			if (!tags.includes(term.slice(1))) {
+				return false;
+			}
+
+			continue;
+		}
+
+		if (
+			relativePath.toLowerCase().includes(term)
+			|| metadata.description?.toLowerCase().includes(term)
+			|| tags.some((tag) => tag.includes(term))
+		) {
+			continue;
+		}
+
+		content ??= (await readContent()).toLowerCase();
+		if (!content.includes(term)) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+function matchScriptNames(relativePaths: readonly string[], name: string): string[] {
+	const normalizedName = name.trim().replace(/\\/g, '/').replace(/^\.\//, '').toLowerCase();
+	const stripExtension = (value: string): string => value.slice(0, value.length - path.posix.extname(value).length);
+	const candidateKeys = [
+		(relativePath: string) => relativePath,
+		(relativePath: string) => stripExtension(relativePath),
+		(relativePath: string) => path.posix.basename(relativePath),
+		(relativePath: string) => stripExtension(path.posix.basename(relativePath))
+	];
+	for (const getKey of candidateKeys) {
+		const matches = relativePaths.filter((relativePath) => getKey(relativePath).toLowerCase() === normalizedName);
+		if (matches.length > 0) {
+			return matches;
+		}
+	}
+
+	return [];
+}
+
+function matchesSavePattern(pattern: string, document: vscode.TextDocument): boolean {
+	// Relative globs match inside the saved file's own workspace folder; absolute globs match anywhere.
+	const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+	const filterPattern = workspaceFolder && !path.isAbsolute(pattern) ? new vscode.RelativePattern(workspaceFolder, pattern) : pattern;
+	return vscode.languages.match({ pattern: filterPattern }, document) > 0;
+}
+
+async function listScriptFiles(directory: vscode.Uri, skippedDirectories: readonly vscode.Uri[] = []): Promise<vscode.Uri[]> {
+	const files: vscode.Uri[] = [];
+	for (const [entryName, fileType] of await vscode.workspace.fs.readDirectory(directory)) {
+		const entryUri = vscode.Uri.joinPath(directory, entryName);
+		if (skippedDirectories.some((skippedDirectory) => isSamePath(skippedDirectory.fsPath, entryUri.fsPath))) {
+			continue;
+		}
+
+		if (fileType === vscode.FileType.Directory && !entryName.startsWith('.')) {
+			files.push(...await listScriptFiles(entryUri, skippedDirectories));
+		} else if (fileType === vscode.FileType.File) {
+			files.push(entryUri);
+		}
+	}
+
+	return files;
+}
+
+async function reserveRunSlot(
+	activeRuns: Map<string, ActiveRun>,
+	run: ActiveRun,
+	policy: ConcurrencyPolicy,
+	stopRuns: (runs: readonly ActiveRun[]) => Promise<void>
+): Promise<(() => void) | 'alreadyRunning' | 'stopped'> {
+	// The policy check and the registration happen before anything is awaited, so two runs of one script
+	// cannot both get past a singleton check, and a later restart or queued run always sees this one.
+	const scriptUri = run.script.uri.toString();
+	const earlierRuns = [...activeRuns.values()].filter((activeRun) => activeRun.script.uri.toString() === scriptUri);
+	if (policy === 'singleton' && earlierRuns.length > 0) {
+		return 'alreadyRunning';
+	}
+
+	let releaseSlot!: () => void;
+	run.finished = new Promise<void>((resolve) => {
+		releaseSlot = () => {
+			activeRuns.delete(run.runId);
+			resolve();
+		};
+	});
+	activeRuns.set(run.runId, run);
+	if (policy === 'restart') {
+		await stopRuns(earlierRuns);
+	} else if (policy === 'queue' && earlierRuns.length > 0) {
+		run.queued = true;
+		await Promise.all(earlierRuns.map((earlierRun) => earlierRun.finished));
+		run.queued = false;
+	}
+
+	if (run.stopRequested) {
+		releaseSlot();
+		return 'stopped';
+	}
+
+	return releaseSlot;
+}
+
+function createReplayOptions(
+	maskedArguments: readonly string[],
+	maskedEnvironment: Readonly<Record<string, string>>,
+	cwd: string,
+	targetName: string
+): RunScriptOptions {
+	// A restart repeats the run as it happened, without resolving variables again. Secrets and password inputs
+	// stay as placeholders: secrets are filled in from the active profile and passwords are asked for again.
+	return {
+		scriptArguments: maskedArguments,
+		environment: maskedEnvironment,
+		workingDirectory: { mode: 'custom', path: cwd },
+		substituteVariables: false,
+		target: targetName
+	};
+}
+
+function shouldCaptureOutput(metadata: ScriptMetadata, captureByDefault: boolean): boolean {
+	return metadata.capture ?? captureByDefault;
+}
+
+function createRunLogFileName(runId: string, scriptName: string, startedAt: Date): string {
+	const timestamp = startedAt.toISOString().replace(/[:.]/g, '-');
+	const safeScriptName = scriptName.replace(/[^\w.-]+/g, '_');
+	return `${timestamp}-${safeScriptName}-${runId}.log`;
+}
+
+async function deleteUnreferencedRunLogs(logsDirectory: vscode.Uri, keptLogPaths: readonly (string | undefined)[]): Promise<void> {
+	if (!(await uriExists(logsDirectory))) {
+		return;
+	}
+
+	const referencedLogs = new Set(
+		keptLogPaths
+			.filter((logPath): logPath is string => Boolean(logPath))
+			.map((logPath) => path.basename(logPath))
+	);
+	for (const [entryName, fileType] of await vscode.workspace.fs.readDirectory(logsDirectory)) {
+		if (fileType === vscode.FileType.File && entryName.endsWith('.log') && !referencedLogs.has(entryName)) {
+			await vscode.workspace.fs.delete(vscode.Uri.joinPath(logsDirectory, entryName), { useTrash: false });
+		}
+	}
+}
+
+async function uriExists(uri: vscode.Uri): Promise<boolean> {
+	try {
+		await vscode.workspace.fs.stat(uri);
+		return true;
+	} catch {
 		return false;
 	}
+}
+
+function resolveScriptRelativePath(inputPath: string, scriptDirectory: string): string {
+	if (inputPath === '~' || inputPath.startsWith('~/') || inputPath.startsWith('~\\')) {
+		return resolveDirectoryPath(inputPath);
+	}
+
+	return path.resolve(scriptDirectory, inputPath);
+}
+
+function createRunVariables(scriptPath: string, activeFile?: string, workspaceFolder?: string): Record<string, string> {
+	const variables: Record<string, string> = {
+		userHome: os.homedir(),
+		script: scriptPath,
+		scriptDirname: path.dirname(scriptPath),
+		scriptBasename: path.basename(scriptPath)
+	};
+
+	if (workspaceFolder) {
+		variables.workspaceFolder = workspaceFolder;
+		variables.workspaceFolderBasename = path.basename(workspaceFolder);
+	}
+
+	if (activeFile) {
+		variables.file = activeFile;
+		variables.fileDirname = path.dirname(activeFile);
+		variables.fileBasename = path.basename(activeFile);
+	}
+
+	return variables;
+}
+
+async function resolveRunValues(
+	values: readonly string[],
+	isReplay: boolean,
+	variables: Readonly<Record<string, string>>,
+	resolveInput: (id: string) => Promise<string | undefined>,
+	secrets: Readonly<Record<string, string>>,
+	maskedInputIds: ReadonlySet<string> = new Set()
+): Promise<{ resolved: string[]; masked: string[] } | undefined> {
+	const resolved: string[] = [];
+	// The same values with secrets and password inputs left as placeholders, for display, history and restarts.
+	const masked: string[] = [];
+	for (const value of values) {
+		// Values replayed from history or a restart are already resolved apart from those placeholders.
+		const substitution = isReplay
+			? await unmaskReplayedValue(value, secrets, resolveInput)
+			: await substituteMaskedVariables(value, variables, resolveInput, secrets, maskedInputIds);
+		if (substitution === undefined) {
+			return undefined;
+		}
+
+		resolved.push(substitution.value);
+		masked.push(substitution.masked);
+	}
+
+	return { resolved, masked };
+}
+
+async function substituteVariables(
+	value: string,
+	variables: Readonly<Record<string, string>>,
+	resolveInput?: (id: string) => Promise<string | undefined>,
+	secrets?: Readonly<Record<string, string>>
+): Promise<string | undefined> {
+	return (await substituteMaskedVariables(value, variables, resolveInput, secrets))?.value;
+}
+
+async function substituteMaskedVariables(
+	value: string,
+	variables: Readonly<Record<string, string>>,
+	resolveInput?: (id: string) => Promise<string | undefined>,
+	secrets?: Readonly<Record<string, string>>,
+	maskedInputIds: ReadonlySet<string> = new Set()
+): Promise<{ value: string; masked: string } | undefined> {
+	let result = '';
+	let masked = '';
+	let lastIndex = 0;
+	for (const match of value.matchAll(/\$\{(\w+)(?::([^}]*))?\}/g)) {
+		const [token, name, argument] = match;
+		let replacement: string | undefined;
+		if (argument === undefined) {
+			replacement = variables[name];
+			if (replacement === undefined) {
+				throw new Error(`${token} is not available for this run.`);
+			}
+		} else if (name === 'env') {
+			replacement = process.env[argument] ?? '';
+		} else if (name === 'input') {
+			if (!resolveInput) {
+				throw new Error(`${token} cannot be prompted for here.`);
+			}
+
+			replacement = await resolveInput(argument.trim());
+			if (replacement === undefined) {
+				return undefined;
+			}
+		} else if (name === 'secret') {
+			replacement = secrets?.[argument.trim()];
+			if (replacement === undefined) {
+				throw new Error(`${token} is not set in the active environment profile.`);
+			}
+		} else {
+			throw new Error(`${token} is not a supported QuickIt variable.`);
+		}
+
+		// Only the places where a secret or password was substituted are masked, so text that happens to equal one stays as it is.
+		const isMasked = name === 'secret' || (name === 'input' && maskedInputIds.has(argument.trim()));
+		result += value.slice(lastIndex, match.index) + replacement;
+		masked += value.slice(lastIndex, match.index) + (isMasked ? `\${${name}:${argument.trim()}}` : replacement);
+		lastIndex = match.index + token.length;
+	}
+
+	return { value: result + value.slice(lastIndex), masked: masked + value.slice(lastIndex) };
+}
+
+async function unmaskReplayedValue(
+	value: string,
+	secrets: Readonly<Record<string, string>>,
+	resolveInput: (id: string) => Promise<string | undefined>
+): Promise<{ value: string; masked: string } | undefined> {
+	let result = '';
+	let lastIndex = 0;
+	for (const match of value.matchAll(/\$\{(secret|input):([^}]*)\}/g)) {
+		const [token, name, argument] = match;
+		const replacement = name === 'secret' ? secrets[argument.trim()] : await resolveInput(argument.trim());
+		if (replacement === undefined) {
+			if (name === 'secret') {
+				throw new Error(`${token} is not set in the active environment profile.`);
+			}
+
+			return undefined;
+		}
+
+		result += value.slice(lastIndex, match.index) + replacement;
+		lastIndex = match.index + token.length;
+	}
+
+	return { value: result + value.slice(lastIndex), masked: value };
+}
+
+function createVariableEnvironment(variables: Readonly<Record<string, string>>): Record<string, string> {
+	const environment: Record<string, string> = {};
+	for (const [name, value] of Object.entries(variables)) {
+		environment[`QUICKIT_${name.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}`] = value;
+	}
+
+	return environment;
+}
+
+async function readScriptMetadata(uri: vscode.Uri, descriptor: ScriptDescriptor): Promise<ScriptMetadata> {
+	try {
+		const content = await vscode.workspace.fs.readFile(uri);
+		const header = Buffer.from(content.subarray(0, METADATA_READ_LIMIT_BYTES)).toString('utf8');
+		return parseScriptMetadata(header, descriptor.commentPrefix ? [descriptor.commentPrefix] : ['#', '//']);
+	} catch {
+		return EMPTY_SCRIPT_METADATA;
+	}
+}
+
+function parseScriptMetadata(content: string, commentPrefixes: readonly string[]): ScriptMetadata {
+	const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+	const tags: string[] = [];
+	const env: Record<string, string> = {};
+	let description: string | undefined;
+	let cwd: string | undefined;
+	let interpreter: string | undefined;
+	let minVersion: string | undefined;
+	let venv: string | undefined;
+	let target: string | undefined;
+	let args: string[] | undefined;
+	let capture: boolean | undefined;
+	let concurrency: ConcurrencyPolicy | undefined;
+	let schedule: ScriptSchedule | undefined;
+	let scheduleError: string | undefined;
+	const inputs: ScriptInput[] = [];
+	const triggers: ScriptTrigger[] = [];
+
+	for (let index = 0; index < lines.length; index++) {
+		const line = lines[index].trim();
+		if (index === 0 && line.startsWith('#!')) {
+			continue;
+		}
+
+		if (!line) {
+			continue;
+		}
+
+		const commentPrefix = commentPrefixes.find((prefix) => line.startsWith(prefix));
+		if (!commentPrefix) {
+			break;
+		}
+
+		const match = /^@([\w-]+)(?:\s+(.*))?$/.exec(line.slice(commentPrefix.length).trim());
+		if (!match) {
+			continue;
+		}
+
+		const key = match[1].toLowerCase();
+		const value = match[2]?.trim() ?? '';
+		switch (key) {
+		case 'description':
+			description = description ? `${description} ${value}` : value || undefined;
+			break;
+		case 'tags':
+		case 'tag':
+			for (const tag of value.split(/[\s,]+/)) {
+				const normalizedTag = tag.replace(/^#/, '').trim();
+				if (normalizedTag && !tags.includes(normalizedTag)) {
+					tags.push(normalizedTag);
+				}
+			}
+			break;
+		case 'cwd':
+			cwd = value || undefined;
+			break;
+		case 'env': {
+			const separatorIndex = value.indexOf('=');
+			if (separatorIndex > 0) {
+				env[value.slice(0, separatorIndex).trim()] = value.slice(separatorIndex + 1).trim();
+			}
+			break;
+		}
+		case 'interpreter':
+			interpreter = value || undefined;
+			break;
+		case 'venv':
+			venv = value || undefined;
+			break;
+		case 'target':
+			target = value || undefined;
+			break;
+		case 'minversion':
+			minVersion = /^(?:>=\s*)?v?(\d+(?:\.\d+){0,2})$/.exec(value)?.[1] ?? minVersion;
+			break;
+		case 'args':
+			try {
+				args = parseCommandArguments(value);
+			} catch {
+				args = value.split(/\s+/).filter(Boolean);
+			}
+			break;
+		case 'capture':
+			capture = parseBooleanFlag(value);
+			break;
+		case 'concurrency':
+			concurrency = parseConcurrencyPolicy(value);
+			break;
+		case 'schedule':
+			try {
+				schedule = parseScriptSchedule(value);
+				scheduleError = undefined;
+			} catch (error) {
+				schedule = undefined;
+				scheduleError = toErrorMessage(error);
+			}
+			break;
+		case 'trigger': {
+			const trigger = parseScriptTrigger(value);
+			if (trigger) {
+				triggers.push(trigger);
+			}
+			break;
+		}
+		case 'input': {
+			const input = parseScriptInput(value);
+			if (input && !inputs.some((existing) => existing.id === input.id)) {
+				inputs.push(input);
+			}
+			break;
+		}
+		default:
+			break;
+		}
+	}
+
+	// PEP 723 inline metadata (`# /// script`) declares dependencies and the supported Python versions.
+	const inlineMetadata = commentPrefixes.includes('#') ? parseInlineScriptMetadata(content) : undefined;
+	return {
+		description,
+		tags,
+		cwd,
+		env,
+		interpreter,
+		minVersion: minVersion ?? inlineMetadata?.minVersion,
+		venv,
+		dependencies: inlineMetadata?.dependencies,
+		target,
+		args,
+		inputs,
+		capture,
+		concurrency,
+		schedule,
+		scheduleError,
+		triggers
+	};
+}
+
+function parseScriptTrigger(value: string): ScriptTrigger | undefined {
+	const match = /^(\S+)(?:\s+(.*))?$/.exec(value);
+	const argument = match?.[2]?.trim() ?? '';
+	switch (match?.[1].toLowerCase()) {
+	case 'save':
+		return argument ? { event: 'save', pattern: argument } : undefined;
+	case 'workspaceopen':
+		return { event: 'workspaceOpen' };
+	case 'branchchange':
+		return { event: 'branchChange', branch: argument || undefined };
+	case 'taskend':
+		return argument ? { event: 'taskEnd', taskName: argument } : undefined;
+	default:
+		return undefined;
+	}
+}
+
+function parseScriptSchedule(value: string): ScriptSchedule {
+	const expression = value.trim().replace(/\s+/g, ' ');
+	const intervalMatch = /^every (\d+) ?(m|mins?|minutes?|h|hrs?|hours?|d|days?)?$/i.exec(expression);
+	if (intervalMatch) {
+		const unit = intervalMatch[2]?.toLowerCase() ?? 'm';
+		const unitMinutes = unit.startsWith('h') ? 60 : unit.startsWith('d') ? 24 * 60 : 1;
+		const intervalMinutes = Number(intervalMatch[1]) * unitMinutes;
+		if (intervalMinutes < 1) {
+			throw new Error('Schedule interval must be at least 1 minute.');
+		}
+
+		return { kind: 'interval', expression, intervalMinutes };
+	}
+
+	const cronExpression = SCHEDULE_ALIASES[expression.toLowerCase()] ?? expression.replace(/^cron /i, '');
+	const fields = cronExpression.split(' ');
+	if (fields.length !== CRON_FIELD_RANGES.length) {
+		throw new Error('Schedule must be "every N minutes", hourly, daily, weekly or a five-field cron expression.');
+	}
+
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = CRON_FIELD_RANGES.map((range, index) => parseCronField(fields[index], range));
+	return {
+		kind: 'cron',
+		expression,
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		daysOfWeek: new Set([...daysOfWeek].map((day) => day % 7)),
+		restrictsDayOfMonth: !fields[2].startsWith('*'),
+		restrictsDayOfWeek: !fields[4].startsWith('*')
+	};
+}
+
+function parseCronField(field: string, range: typeof CRON_FIELD_RANGES[number]): Set<number> {
+	const values = new Set<number>();
+	for (const part of field.split(',')) {
+		const match = /^(?:\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+		if (!match) {
+			throw new Error(`Invalid cron ${range.name} field "${field}".`);
+		}
+
+		const start = match[1] === undefined ? range.min : Number(match[1]);
+		const end = match[2] !== undefined
+			? Number(match[2])
+			: match[1] === undefined || match[3] !== undefined ? range.max : start;
+		const step = match[3] === undefined ? 1 : Number(match[3]);
+		if (start < range.min || end > range.max || start > end || step < 1) {
+			throw new Error(`Cron ${range.name} field "${field}" must stay within ${range.min}-${range.max}.`);
+		}
+
+		for (let fieldValue = start; fieldValue <= end; fieldValue += step) {
+			values.add(fieldValue);
+		}
+	}
+
+	return values;
+}
+
+function getNextScheduleTime(schedule: ScriptSchedule, after: number): number | undefined {
+	if (schedule.kind === 'interval') {
+		// Intervals line up on multiples of the interval so every window agrees on the same occurrence.
+		const intervalMs = schedule.intervalMinutes * 60 * 1000;
+		return (Math.floor(after / intervalMs) + 1) * intervalMs;
+	}
+
+	const candidate = new Date(after);
+	candidate.setSeconds(0, 0);
+	candidate.setMinutes(candidate.getMinutes() + 1);
+	while (candidate.getTime() <= after + SCHEDULE_SEARCH_LIMIT_MS) {
+		if (!schedule.months.has(candidate.getMonth() + 1)) {
+			candidate.setMonth(candidate.getMonth() + 1, 1);
+			candidate.setHours(0, 0, 0, 0);
+			continue;
+		}
+
+		if (!matchesCronDay(schedule, candidate)) {
+			candidate.setDate(candidate.getDate() + 1);
+			candidate.setHours(0, 0, 0, 0);
+			continue;
+		}
+
+		if (!schedule.hours.has(candidate.getHours())) {
+			candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+			continue;
+		}
+
+		if (!schedule.minutes.has(candidate.getMinutes())) {
+			candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+			continue;
+		}
+
+		return candidate.getTime();
+	}
 
-	const scriptsDirectory = await getScriptsDirectory();
-	if (scriptsDirectory.scheme !== 'file') {
+	return undefined;
+}
+
+function matchesCronDay(schedule: CronSchedule, date: Date): boolean {
+	const matchesDayOfMonth = schedule.daysOfMonth.has(date.getDate());
+	const matchesDayOfWeek = schedule.daysOfWeek.has(date.getDay());
+	// Like cron, a day matches either field when both are restricted.
+	return schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek
+		? matchesDayOfMonth || matchesDayOfWeek
+		: matchesDayOfMonth && matchesDayOfWeek;
+}
+
+function parseConcurrencyPolicy(value: string): ConcurrencyPolicy | undefined {
+	const normalizedValue = value.trim().toLowerCase();
+	return CONCURRENCY_POLICIES.find((policy) => policy === normalizedValue);
+}
+
+function parseBooleanFlag(value: string): boolean | undefined {
+	switch (value.trim().toLowerCase()) {
+	case '':
+	case 'true':
+	case 'yes':
+	case 'on':
+		return true;
+	case 'false':
+	case 'no':
+	case 'off':
 		return false;
+	default:
+		return undefined;
+	}
+}
+
+function isPipelineFileName(fileName: string): boolean {
+	return fileName.toLowerCase().endsWith(PIPELINE_FILE_SUFFIX);
+}
+
+function parsePipelineDefinition(content: string): PipelineDefinition {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(content.replace(/^\uFEFF/, ''));
+	} catch (error) {
+		throw new Error(`Pipeline is not valid JSON: ${toErrorMessage(error)}`);
+	}
+
+	if (!isRecord(parsed) || !Array.isArray(parsed.steps)) {
+		throw new Error('Pipeline must be an object with a "steps" array.');
+	}
+
+	if (parsed.steps.length === 0) {
+		throw new Error('Pipeline has no steps.');
+	}
+
+	const steps = parsed.steps.map((step, index): PipelineStep => {
+		if (isRecord(step) && Array.isArray(step.parallel)) {
+			if (step.parallel.length === 0) {
+				throw new Error(`Step ${index + 1} has an empty "parallel" list.`);
+			}
+
+			return {
+				name: optionalString(step.name),
+				parallel: step.parallel.map((parallelStep, parallelIndex) => parsePipelineScriptStep(parallelStep, `${index + 1}.${parallelIndex + 1}`))
+			};
+		}
+
+		return parsePipelineScriptStep(step, String(index + 1));
+	});
+
+	return { description: optionalString(parsed.description), steps };
+}
+
+function serializeScriptBundle(bundle: ScriptBundle): string {
+	return `${JSON.stringify({
+		format: SCRIPT_BUNDLE_FORMAT,
+		version: SCRIPT_BUNDLE_VERSION,
+		interpreters: bundle.interpreters,
+		languageInterpreters: bundle.languageInterpreters,
+		scripts: bundle.scripts
+	}, undefined, 2)}\n`;
+}
+
+function parseScriptBundle(content: string): ScriptBundle {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(content.replace(/^\uFEFF/, ''));
+	} catch (error) {
+		throw new Error(`Bundle is not valid JSON: ${toErrorMessage(error)}`);
+	}
+
+	if (!isRecord(parsed) || parsed.format !== SCRIPT_BUNDLE_FORMAT || !Array.isArray(parsed.scripts)) {
+		throw new Error('File is not a QuickIt script bundle.');
+	}
+
+	if (typeof parsed.version !== 'number' || parsed.version > SCRIPT_BUNDLE_VERSION) {
+		throw new Error('Bundle was created by a newer version of QuickIt.');
+	}
+
+	const interpreterSettings = new Set(BUILTIN_SCRIPT_DESCRIPTORS.map((descriptor) => descriptor.interpreterSetting));
+	const interpreters: Record<string, string> = {};
+	for (const [setting, command] of Object.entries(isRecord(parsed.interpreters) ? parsed.interpreters : {})) {
+		const normalizedCommand = optionalString(command);
+		if (!interpreterSettings.has(setting) || !normalizedCommand) {
+			throw new Error(`Bundle has an invalid interpreter setting "${setting}".`);
+		}
+
+		interpreters[setting] = normalizedCommand;
+	}
+
+	const languageInterpreters: Record<string, string> = {};
+	for (const [extension, command] of Object.entries(isRecord(parsed.languageInterpreters) ? parsed.languageInterpreters : {})) {
+		const normalizedCommand = optionalString(command);
+		if (extension.length < 2 || normalizeExtension(extension) !== extension || !normalizedCommand) {
+			throw new Error(`Bundle has an invalid language interpreter for "${extension}".`);
+		}
+
+		languageInterpreters[extension] = normalizedCommand;
 	}
 
-	return isPathInside(scriptsDirectory.fsPath, uri.fsPath);
+	const seenPaths = new Set<string>();
+	const scripts = parsed.scripts.map((entry, index): ScriptBundleEntry => {
+		if (!isRecord(entry) || typeof entry.path !== 'string' || typeof entry.content !== 'string') {
+			throw new Error(`Script ${index + 1} must have a "path" and "content".`);
+		}
+
+		const segments = entry.path.split(/[\\/]/);
+		if (segments.some((segment) => !segment.trim() || validateFileNameSegment(segment.trim()) !== undefined)) {
+			throw new Error(`Script ${index + 1} has an invalid path "${entry.path}".`);
+		}
+
+		const scriptPath = segments.map((segment) => segment.trim()).join('/');
+		if (seenPaths.has(scriptPath.toLowerCase())) {
+			throw new Error(`Bundle lists "${scriptPath}" more than once.`);
+		}
+		seenPaths.add(scriptPath.toLowerCase());
+
+		const argumentPresets = (Array.isArray(entry.argumentPresets) ? entry.argumentPresets : []).map((preset): ArgumentPreset => {
+			if (!isRecord(preset) || !optionalString(preset.name) || !Array.isArray(preset.arguments) || !preset.arguments.every((argument) => typeof argument === 'string')) {
+				throw new Error(`Script "${scriptPath}" has an invalid argument preset.`);
+			}
+
+			return { name: String(optionalString(preset.name)), arguments: preset.arguments as string[] };
+		});
+
+		if (entry.interpreter !== undefined && !optionalString(entry.interpreter)) {
+			throw new Error(`Script "${scriptPath}" has an invalid interpreter.`);
+		}
+
+		const interpreter = optionalString(entry.interpreter);
+		return { path: scriptPath, content: entry.content, argumentPresets, ...(interpreter ? { interpreter } : {}) };
+	});
+
+	return { scripts, interpreters, languageInterpreters };
+}
+
+function getFileNameSuffix(fileName: string): string {
+	return isPipelineFileName(fileName) ? PIPELINE_FILE_SUFFIX : path.extname(fileName);
+}
+
+function createAvailableFileName(fileName: string, attempt: number): string {
+	const extension = getFileNameSuffix(fileName);
+	return `${fileName.slice(0, fileName.length - extension.length)}-${attempt}${extension}`;
 }
 
-function normalizeExtension(extension: string): string {
-	const normalizedValue = extension.trim().toLowerCase();
-	if (!normalizedValue) {
-		return '';
+async function findAvailableUri(uri: vscode.Uri): Promise<vscode.Uri> {
+	const directory = vscode.Uri.joinPath(uri, '..');
+	const fileName = path.basename(uri.fsPath);
+	let candidate = uri;
+	for (let attempt = 2; await uriExists(candidate); attempt++) {
+		candidate = vscode.Uri.joinPath(directory, createAvailableFileName(fileName, attempt));
 	}
 
-	return normalizedValue.startsWith('.') ? normalizedValue : `.${normalizedValue}`;
+	return candidate;
 }
 
-function normalizeScriptFileName(rawName: string, extension: string): string {
-	const trimmedName = rawName.trim();
-	const normalizedExtension = normalizeExtension(extension);
-	const existingExtension = normalizeExtension(path.extname(trimmedName));
-	if (existingExtension && existingExtension === normalizedExtension) {
-		return trimmedName;
+function remapMovedUri(uri: string, oldUri: vscode.Uri, newUri: vscode.Uri): string | undefined {
+	const oldKey = oldUri.toString();
+	if (uri === oldKey) {
+		return newUri.toString();
 	}
 
-	return `${trimmedName}${normalizedExtension}`;
+	return uri.startsWith(`${oldKey}/`) ? `${newUri.toString()}${uri.slice(oldKey.length)}` : undefined;
 }
 
-function validateScriptNameInput(value: string, extension: string): string | undefined {
-	const trimmedValue = value.trim();
-	if (!trimmedValue) {
-		return 'Script name is required.';
+function parsePipelineScriptStep(step: unknown, label: string): PipelineScriptStep {
+	if (typeof step === 'string') {
+		return { script: step };
 	}
 
-	if (trimmedValue === '.' || trimmedValue === '..') {
-		return 'Enter a valid script name.';
+	if (!isRecord(step) || typeof step.script !== 'string' || !step.script.trim()) {
+		throw new Error(`Step ${label} must name a "script".`);
 	}
 
-	if (/[\\/]/.test(trimmedValue)) {
-		return 'Use only a file name, not a path.';
+	let args: readonly string[] | undefined;
+	if (typeof step.args === 'string') {
+		args = parseCommandArguments(step.args);
+	} else if (Array.isArray(step.args) && step.args.every((argument) => typeof argument === 'string')) {
+		args = step.args;
+	} else if (step.args !== undefined) {
+		throw new Error(`Step ${label} "args" must be a string or an array of strings.`);
 	}
 
-	if (/[<>:"|?*\x00-\x1F]/.test(trimmedValue)) {
-		return 'Name contains invalid filename characters.';
-	}
+	return {
+		script: step.script.trim(),
+		name: optionalString(step.name),
+		args,
+		continueOnError: step.continueOnError === true
+	};
+}
 
-	if (/[. ]$/.test(trimmedValue)) {
-		return 'Name cannot end with a period or space.';
-	}
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
 
-	const expectedExtension = normalizeExtension(extension);
-	if (trimmedValue.toLowerCase() === expectedExtension) {
-		return `Enter a file name before ${expectedExtension}.`;
-	}
+function optionalString(value: unknown): string | undefined {
+	return typeof value === 'string' ? normalizeOptionalString(value) : undefined;
+}
 
-	const fileNameBase = path.parse(trimmedValue).name.toLowerCase();
-	if (WINDOWS_RESERVED_BASENAMES.has(fileNameBase)) {
-		return 'Name is reserved on Windows.';
+function parseScriptInput(value: string): ScriptInput | undefined {
+	const match = /^([\w.-]+)(?:\s+(text|password|pick)\b)?\s*(.*)$/.exec(value);
+	if (!match) {
+		return undefined;
 	}
 
-	const providedExtension = normalizeExtension(path.extname(trimmedValue));
-	if (providedExtension && providedExtension !== expectedExtension) {
-		return `Use ${expectedExtension} or leave the extension blank.`;
+	const [, id, type = 'text', rest] = match;
+	if (type !== 'pick') {
+		return { id, type: type === 'password' ? 'password' : 'text', prompt: rest.trim() || undefined, options: [] };
 	}
 
-	return undefined;
-}
-
-function resolveDirectoryPath(inputPath: string): string {
-	const expandedPath = inputPath === '~'
-		? os.homedir()
-		: inputPath.startsWith('~/') || inputPath.startsWith('~\\')
-			? path.join(os.homedir(), inputPath.slice(2))
-			: inputPath;
-	return path.isAbsolute(expandedPath)
-		? expandedPath
-		: path.resolve(os.homedir(), expandedPath);
+	const options = rest.split(/[|,]/).map((option) => option.trim()).filter(Boolean);
+	return { id, type: 'pick', options };
 }
 
-async function uriExists(uri: vscode.Uri): Promise<boolean> {
-	try {
-		await vscode.workspace.fs.stat(uri);
-		return true;
-	} catch {
-		return false;
-	}
+function isSamePath(leftPath: string, rightPath: string): boolean {
+	return isPathInside(leftPath, rightPath) && isPathInside(rightPath, leftPath);
 }
 
 function isPathInside(directoryPath: string, filePath: string): boolean {
@@ -654,6 +6000,242 @@ function getInitialTemplateForExtension(extension: string): string {
 	}
 }
 
+async function listScriptTemplates(directory: vscode.Uri, extension: string): Promise<{ name: string; uri: vscode.Uri }[]> {
+	if (!(await uriExists(directory))) {
+		return [];
+	}
+
+	return (await vscode.workspace.fs.readDirectory(directory))
+		.filter(([entryName, fileType]) => fileType === vscode.FileType.File && normalizeExtension(path.extname(entryName)) === extension)
+		.map(([entryName]) => ({ name: stripScriptExtension(entryName), uri: vscode.Uri.joinPath(directory, entryName) }))
+		.sort((left, right) => left.name.localeCompare(right.name, undefined, { sensitivity: 'base' }));
+}
+
+function fillTemplatePlaceholders(content: string, values: Readonly<Record<string, string>>): string {
+	// Only known placeholders are replaced so shell variables such as ${HOME} survive untouched.
+	return content.replace(/\$\{(\w+)\}/g, (placeholder, key: string) => Object.prototype.hasOwnProperty.call(values, key) ? values[key] : placeholder);
+}
+
+function stripScriptExtension(fileName: string): string {
+	return path.basename(fileName, path.extname(fileName));
+}
+
+function formatLocalDate(date: Date): string {
+	return [
+		String(date.getFullYear()),
+		String(date.getMonth() + 1).padStart(2, '0'),
+		String(date.getDate()).padStart(2, '0')
+	].join('-');
+}
+
+function getUserName(): string {
+	try {
+		return os.userInfo().username;
+	} catch {
+		return '';
+	}
+}
+
+function getInitialPipelineTemplate(): string {
+	const template = {
+		description: 'Build, migrate, then seed',
+		steps: [
+			{ script: 'build.sh' },
+			{ script: 'migrate.py', args: ['--yes'] },
+			{
+				parallel: [
+					{ script: 'seed.py', continueOnError: true },
+					{ script: 'warm-cache.sh' }
+				]
+			}
+		]
+	};
+	return `${JSON.stringify(template, undefined, '\t')}\n`;
+}
+
+async function discoverInterpreterCommands(commands: readonly string[], directoryPatterns: readonly string[]): Promise<string[]> {
+	const candidates: string[] = [];
+	for (const command of commands) {
+		const executable = extractCommandToken(command);
+		if (!executable) {
+			continue;
+		}
+
+		try {
+			const { stdout } = await execFile(process.platform === 'win32' ? 'where.exe' : 'which', process.platform === 'win32' ? [executable] : ['-a', executable]);
+			candidates.push(...stdout.split(/\r?\n/).map((line) => line.trim()).filter(Boolean));
+		} catch {
+			// Not on PATH; the common locations below may still have it.
+		}
+	}
+
+	const executableNames = commands
+		.map(extractCommandToken)
+		.filter((executable): executable is string => Boolean(executable))
+		.flatMap((executable) => (process.platform === 'win32' ? [`${executable}.exe`, `${executable}.cmd`] : [executable]));
+	for (const directory of (await Promise.all(directoryPatterns.map(expandDirectoryPattern))).flat()) {
+		for (const executableName of executableNames) {
+			const candidate = path.join(directory, executableName);
+			if (await uriExists(vscode.Uri.file(candidate))) {
+				candidates.push(candidate);
+			}
+		}
+	}
+
+	// The same interpreter is often reachable through symlinks, for example /usr/bin/python3 and /bin/python3.
+	const interpreters = new Map<string, string>();
+	for (const candidate of candidates) {
+		let realPath = candidate;
+		try {
+			realPath = await fs.promises.realpath(candidate);
+		} catch {
+			// Keep the path as found.
+		}
+
+		if (!interpreters.has(realPath)) {
+			interpreters.set(realPath, candidate);
+		}
+	}
+
+	return [...interpreters.values()];
+}
+
+async function expandDirectoryPattern(pattern: string): Promise<string[]> {
+	const directory = resolveDirectoryPath(pattern);
+	const wildcardIndex = directory.split(path.sep).indexOf('*');
+	if (wildcardIndex < 0) {
+		return [directory];
+	}
+
+	const segments = directory.split(path.sep);
+	const parent = segments.slice(0, wildcardIndex).join(path.sep) || path.sep;
+	try {
+		const entries = await fs.promises.readdir(parent, { withFileTypes: true });
+		return entries
+			.filter((entry) => entry.isDirectory())
+			.sort((left, right) => right.name.localeCompare(left.name, undefined, { numeric: true }))
+			.map((entry) => path.join(parent, entry.name, ...segments.slice(wildcardIndex + 1)));
+	} catch {
+		return [];
+	}
+}
+
+function getMinVersionCommand(descriptor: ScriptDescriptor, interpreterCommand: string): string {
+	// TypeScript runners report their own version, while @minVersion is about the Node.js that runs them.
+	return LOCAL_NODE_RUNNERS[descriptor.extension] ? 'node' : interpreterCommand;
+}
+
+async function detectInterpreterVersion(command: string): Promise<string | undefined> {
+	let commandArguments: string[];
+	try {
+		commandArguments = parseCommandArguments(command);
+	} catch {
+		return undefined;
+	}
+
+	if (commandArguments.length === 0) {
+		return undefined;
+	}
+
+	try {
+		const { stdout, stderr } = await execFile(commandArguments[0], [...commandArguments.slice(1), '--version'], {
+			timeout: INTERPRETER_VERSION_TIMEOUT_MS,
+			shell: process.platform === 'win32'
+		});
+		return parseInterpreterVersion(`${stdout}\n${stderr}`);
+	} catch {
+		return undefined;
+	}
+}
+
+function getVirtualEnvironmentPython(environmentPath: string): string {
+	return process.platform === 'win32'
+		? path.join(environmentPath, 'Scripts', 'python.exe')
+		: path.join(environmentPath, 'bin', 'python');
+}
+
+function createVirtualEnvironmentVariables(environmentPath: string): Record<string, string> {
+	const binDirectory = path.dirname(getVirtualEnvironmentPython(environmentPath));
+	return {
+		VIRTUAL_ENV: environmentPath,
+		PATH: [binDirectory, process.env.PATH].filter(Boolean).join(path.delimiter)
+	};
+}
+
+function isInUntrustedWorkspace(directory: string, workspaceFolderPaths: readonly string[], isTrusted: boolean): boolean {
+	return !isTrusted && workspaceFolderPaths.some((folderPath) => isPathInside(folderPath, directory));
+}
+
+async function findLocalNodeRunner(cwd: string, runners: readonly string[]): Promise<string | undefined> {
+	if (runners.length === 0) {
+		return undefined;
+	}
+
+	// Walk up from the working directory so scripts in a monorepo package still find the root toolchain.
+	for (let directory = path.resolve(cwd); ; directory = path.dirname(directory)) {
+		for (const runner of runners) {
+			const candidate = path.join(directory, 'node_modules', '.bin', process.platform === 'win32' ? `${runner}.cmd` : runner);
+			if (await uriExists(vscode.Uri.file(candidate))) {
+				return candidate;
+			}
+		}
+
+		if (path.dirname(directory) === directory) {
+			return undefined;
+		}
+	}
+}
+
+function parseInlineScriptMetadata(content: string): { dependencies: string[]; minVersion?: string } | undefined {
+	const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+	const startIndex = lines.findIndex((line) => /^# \/\/\/ script\s*$/.test(line));
+	if (startIndex < 0) {
+		return undefined;
+	}
+
+	const tomlLines: string[] = [];
+	for (const line of lines.slice(startIndex + 1)) {
+		if (/^# \/\/\/\s*$/.test(line)) {
+			const toml = tomlLines.join('\n');
+			const dependencyList = /^dependencies\s*=\s*\[([\s\S]*?)\]/m.exec(toml)?.[1] ?? '';
+			const dependencies = [...dependencyList.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g)]
+				.map((match) => (match[1] ?? match[2]).trim())
+				.filter(Boolean);
+			const requiresPython = /^requires-python\s*=\s*["']([^"']*)["']/m.exec(toml)?.[1];
+			return { dependencies, minVersion: requiresPython ? /^\s*>=\s*(\d+(?:\.\d+){0,2})/.exec(requiresPython)?.[1] : undefined };
+		}
+
+		if (line !== '#' && !line.startsWith('# ')) {
+			return undefined;
+		}
+
+		tomlLines.push(line.slice(2));
+	}
+
+	return undefined;
+}
+
+function parseInterpreterVersion(output: string): string | undefined {
+	return /\bv?(\d+\.\d+(?:\.\d+)?)/.exec(output)?.[1];
+}
+
+function compareVersions(left: string, right: string): number {
+	const leftParts = left.split('.').map(Number);
+	const rightParts = right.split('.').map(Number);
+	for (let index = 0; index < Math.max(leftParts.length, rightParts.length); index++) {
+		const difference = (leftParts[index] ?? 0) - (rightParts[index] ?? 0);
+		if (difference !== 0) {
+			return difference;
+		}
+	}
+
+	return 0;
+}
+
+function quoteInterpreterPath(interpreterPath: string): string {
+	return /\s/.test(interpreterPath) ? quoteForCommandArgument(interpreterPath) : interpreterPath;
+}
+
 async function isCommandAvailable(command: string): Promise<boolean> {
 	const executable = extractCommandToken(command);
 	if (!executable) {
@@ -695,25 +6277,338 @@ function extractCommandToken(command: string): string {
 	return separatorIndex === -1 ? trimmed : trimmed.slice(0, separatorIndex);
 }
 
+function parseLanguageSettings(value: unknown): { descriptors: ScriptDescriptor[]; errors: string[] } {
+	const descriptors: ScriptDescriptor[] = [];
+	const errors: string[] = [];
+	for (const [index, entry] of (Array.isArray(value) ? value : []).entries()) {
+		const extension = isRecord(entry) ? normalizeExtension(optionalString(entry.extension) ?? '') : '';
+		if (!isRecord(entry) || !/^\.[^.\\/\s]+$/.test(extension)) {
+			errors.push(`Entry ${index + 1} needs a valid "extension".`);
+			continue;
+		}
+
+		const interpreters = Array.isArray(entry.interpreters)
+			? entry.interpreters.map(optionalString).filter((interpreter): interpreter is string => interpreter !== undefined)
+			: [];
+		if (interpreters.length === 0) {
+			errors.push(`"${extension}" needs at least one entry in "interpreters".`);
+			continue;
+		}
+
+		const command = optionalString(entry.command) ?? DEFAULT_LANGUAGE_COMMAND;
+		if (!command.includes('${script}')) {
+			errors.push(`The "${extension}" command must contain \${script}.`);
+			continue;
+		}
+
+		if (descriptors.some((descriptor) => descriptor.extension === extension)) {
+			errors.push(`"${extension}" is defined more than once.`);
+			continue;
+		}
+
+		const label = optionalString(entry.label);
+		descriptors.push({
+			extension,
+			label: label ? `${label} (${extension})` : `Custom (${extension})`,
+			languageId: optionalString(entry.languageId),
+			commentPrefix: optionalString(entry.commentPrefix) ?? '#',
+			initialTemplate: typeof entry.template === 'string' ? entry.template : undefined,
+			getDefaultInterpreters: () => [...interpreters],
+			buildRunCommand: (interpreter, scriptPath, scriptArguments, quote) => buildLanguageCommand(command, interpreter, scriptPath, scriptArguments, quote)
+		});
+	}
+
+	return { descriptors, errors };
+}
+
+function parseEnvironmentProfiles(value: unknown): { profiles: Record<string, Record<string, string>>; errors: string[] } {
+	const profiles: Record<string, Record<string, string>> = {};
+	const errors: string[] = [];
+	for (const [profile, variables] of Object.entries(isRecord(value) ? value : {})) {
+		if (!profile.trim() || !isRecord(variables)) {
+			errors.push(`"${profile}" needs an object of variables.`);
+			continue;
+		}
+
+		profiles[profile] = {};
+		for (const [name, variableValue] of Object.entries(variables)) {
+			if (!ENVIRONMENT_VARIABLE_NAME_PATTERN.test(name) || !['string', 'number', 'boolean'].includes(typeof variableValue)) {
+				errors.push(`"${profile}" has an invalid variable "${name}".`);
+				continue;
+			}
+
+			profiles[profile][name] = String(variableValue);
+		}
+	}
+
+	return { profiles, errors };
+}
+
+function parseExecutionTargets(value: unknown): { targets: ExecutionTarget[]; errors: string[] } {
+	const targets: ExecutionTarget[] = [];
+	const errors: string[] = [];
+	for (const [index, entry] of (Array.isArray(value) ? value : []).entries()) {
+		const name = isRecord(entry) ? optionalString(entry.name) : undefined;
+		if (!isRecord(entry) || !name) {
+			errors.push(`Entry ${index + 1} needs a "name".`);
+			continue;
+		}
+
+		if (LOCAL_EXECUTION_TARGETS.some((target) => target.name === name) || targets.some((target) => target.name === name)) {
+			errors.push(`The target name "${name}" is already in use.`);
+			continue;
+		}
+
+		const backend = entry.type;
+		if (backend !== 'ssh' && backend !== 'docker') {
+			errors.push(`"${name}" needs a "type" of "ssh" or "docker".`);
+			continue;
+		}
+
+		const host = optionalString(entry.host);
+		const container = optionalString(entry.container);
+		if (backend === 'ssh' ? !host : !container) {
+			errors.push(backend === 'ssh' ? `"${name}" needs a "host".` : `"${name}" needs a "container".`);
+			continue;
+		}
+
+		const port = typeof entry.port === 'number' && Number.isInteger(entry.port) && entry.port > 0 ? entry.port : undefined;
+		const interpreters: Record<string, string> = {};
+		for (const [extension, command] of Object.entries(isRecord(entry.interpreters) ? entry.interpreters : {})) {
+			const interpreter = optionalString(command);
+			if (interpreter) {
+				interpreters[normalizeExtension(extension)] = interpreter;
+			}
+		}
+
+		targets.push({
+			name,
+			backend,
+			command: optionalString(entry.command),
+			host,
+			port,
+			user: optionalString(entry.user),
+			identityFile: optionalString(entry.identityFile),
+			container,
+			cwd: optionalString(entry.cwd),
+			interpreters
+		});
+	}
+
+	return { targets, errors };
+}
+
+function fitEditorOutputToInput(input: string, output: string): string {
+	// Most tools end their output with a newline; keep it only when the text they were given had one.
+	return /\r?\n$/.test(input) ? output : output.replace(/\r?\n$/, '');
+}
+
+function describeExecutionTarget(target: ExecutionTarget): string {
+	switch (target.backend) {
+	case 'task':
+		return 'Terminal on this machine';
+	case 'process':
+		return 'Background process on this machine, output in the QuickIt Output channel';
+	case 'ssh':
+		return `SSH to ${target.user ? `${target.user}@` : ''}${target.host ?? ''}${target.port ? `:${target.port}` : ''}`;
+	case 'docker':
+		return `${target.command ?? 'docker'} exec in ${target.container ?? ''}`;
+	}
+}
+
+function createRemoteProcessSpec(
+	target: ExecutionTarget,
+	descriptor: ScriptDescriptor,
+	runId: string,
+	scriptContent: string,
+	scriptArguments: readonly string[],
+	environment: Readonly<Record<string, string>>,
+	displayedArguments: readonly string[] = scriptArguments
+): { commandLine: string; spec: ProcessSpec } {
+	const interpreter = target.interpreters[descriptor.extension] ?? descriptor.getDefaultInterpreters()[0];
+	const remoteScriptPath = `${REMOTE_SCRIPT_DIRECTORY}/quickit-${runId}${descriptor.extension}`;
+	const remoteCwd = target.cwd === '~' || target.cwd?.startsWith('~/')
+		? `"$HOME"${target.cwd.length > 1 ? quotePosixArgument(target.cwd.slice(1)) : ''}`
+		: target.cwd && quotePosixArgument(target.cwd);
+	const environmentFile = [
+		...Object.entries(environment)
+			.filter(([name]) => ENVIRONMENT_VARIABLE_NAME_PATTERN.test(name))
+			.map(([name, value]) => `export ${name}=${quotePosixArgument(value)}\n`),
+		...(scriptArguments.length > 0 ? [`set -- ${scriptArguments.map(quotePosixArgument).join(' ')}\n`] : [])
+	].join('');
+	const environmentLineCount = environmentFile.split('\n').length - 1;
+	// The environment, the arguments and then the script arrive on stdin, so values such as secrets never show
+	// up in a local or remote process list. Both parts are written to temporary files that are removed when the
+	// run ends. Sourcing the first one sets the arguments as positional parameters for the script.
+	const remoteScript = [
+		`f=${quotePosixArgument(remoteScriptPath)}`,
+		`e=${quotePosixArgument(`${remoteScriptPath}.env`)}`,
+		'trap \'rm -f "$f" "$e"\' EXIT',
+		'umask 077',
+		': > "$e" || exit 1',
+		`i=0; while [ "$i" -lt ${environmentLineCount} ]; do IFS= read -r l || exit 1; printf '%s\\n' "$l" >> "$e"; i=$((i + 1)); done`,
+		'cat > "$f" || exit 1',
+		...(remoteCwd ? [`cd ${remoteCwd} || exit 1`] : []),
+		'. "$e"',
+		// Remote hosts run sh, so the command is quoted for POSIX shells whatever the local platform is.
+		`${descriptor.buildRunCommand(interpreter, remoteScriptPath, [], quotePosixArgument)} "$@"`
+	].join('\n');
+	const shellArguments = ['sh', '-c', remoteScript, 'quickit'];
+	const commandLine = [`${target.name}:`, interpreter, path.posix.basename(remoteScriptPath), ...displayedArguments.map(quotePosixArgument)].join(' ');
+	if (target.backend === 'docker') {
+		return {
+			commandLine,
+			spec: {
+				command: target.command ?? 'docker',
+				args: ['exec', '-i', ...(target.user ? ['-u', target.user] : []), target.container ?? '', ...shellArguments],
+				shell: false,
+				input: environmentFile + scriptContent
+			}
+		};
+	}
+
+	return {
+		commandLine,
+		spec: {
+			command: target.command ?? 'ssh',
+			args: [
+				'-T',
+				'-o',
+				'BatchMode=yes',
+				...(target.port ? ['-p', String(target.port)] : []),
+				...(target.identityFile ? ['-i', resolveDirectoryPath(target.identityFile)] : []),
+				target.user ? `${target.user}@${target.host ?? ''}` : target.host ?? '',
+				shellArguments.map(quotePosixArgument).join(' ')
+			],
+			shell: false,
+			input: environmentFile + scriptContent
+		}
+	};
+}
+
+function buildLanguageCommand(
+	template: string,
+	interpreter: string,
+	scriptPath: string,
+	scriptArguments: readonly string[],
+	quote: (value: string) => string = quoteForCommandArgument
+): string {
+	const commandLine = template.replace(/\$\{(interpreter|script|args)\}/g, (_placeholder, key: string) => {
+		switch (key) {
+		case 'interpreter':
+			return interpreter;
+		case 'script':
+			return quote(scriptPath);
+		default:
+			return scriptArguments.map(quote).join(' ');
+		}
+	}).trim();
+	return template.includes('${args}') ? commandLine : appendCommandArguments(commandLine, scriptArguments, quote);
+}
+
 function quoteForCommandArgument(value: string): string {
 	if (process.platform === 'win32') {
 		return `"${value.replace(/"/g, '""')}"`;
 	}
 
+	return quotePosixArgument(value);
+}
+
+function quotePosixArgument(value: string): string {
 	return `'${value.replace(/'/g, '\'\\\'\'')}'`;
 }
 
+function appendCommandArguments(
+	commandLine: string,
+	scriptArguments: readonly string[],
+	quote: (value: string) => string = quoteForCommandArgument
+): string {
+	if (scriptArguments.length === 0) {
+		return commandLine;
+	}
+
+	return `${commandLine} ${scriptArguments.map(quote).join(' ')}`;
+}
+
+function parseCommandArguments(input: string): string[] {
+	const parsedArguments: string[] = [];
+	let current = '';
+	let hasToken = false;
+	let quote: '"' | '\'' | undefined;
+
+	for (let index = 0; index < input.length; index++) {
+		const character = input[index];
+		if (quote) {
+			if (character === quote) {
+				quote = undefined;
+			} else if (character === '\\' && quote === '"' && (input[index + 1] === '"' || input[index + 1] === '\\')) {
+				current += input[++index];
+			} else {
+				current += character;
+			}
+
+			continue;
+		}
+
+		if (character === '"' || character === '\'') {
+			quote = character;
+			hasToken = true;
+			continue;
+		}
+
+		if (character === '\\' && /["'\s]/.test(input[index + 1] ?? '')) {
+			current += input[++index];
+			hasToken = true;
+			continue;
+		}
+
+		if (/\s/.test(character)) {
+			if (hasToken) {
+				parsedArguments.push(current);
+				current = '';
+				hasToken = false;
+			}
+
+			continue;
+		}
+
+		current += character;
+		hasToken = true;
+	}
+
+	if (quote) {
+		throw new Error(`Missing closing ${quote} quote.`);
+	}
+
+	if (hasToken) {
+		parsedArguments.push(current);
+	}
+
+	return parsedArguments;
+}
+
+function formatArgumentsForDisplay(scriptArguments: readonly string[]): string {
+	return scriptArguments
+		.map((argument) => argument && !/[\s"']/.test(argument) ? argument : `"${argument.replace(/(["\\])/g, '\\$1')}"`)
+		.join(' ');
+}
+
 function getQuickItConfigurationValue(settingPath: string): { value: string | undefined; hasWorkspaceOverride: boolean } {
+	const { value, hasWorkspaceOverride } = inspectQuickItConfigurationValue<string>(settingPath);
+	return { value: normalizeOptionalString(value), hasWorkspaceOverride };
+}
+
+function inspectQuickItConfigurationValue<T>(settingPath: string): { value: T | undefined; hasWorkspaceOverride: boolean } {
 	const configuration = vscode.workspace.getConfiguration('quickIt');
-	const inspected = configuration.inspect<string>(settingPath);
+	const inspected = configuration.inspect<T>(settingPath);
 	if (!inspected) {
 		return {
-			value: normalizeOptionalString(configuration.get<string>(settingPath)),
+			value: configuration.get<T>(settingPath),
 			hasWorkspaceOverride: false
 		};
 	}
 
-	const value = normalizeOptionalString(inspected.globalValue ?? inspected.defaultValue ?? configuration.get<string>(settingPath));
+	const value = inspected.globalValue ?? inspected.defaultValue ?? configuration.get<T>(settingPath);
 	const hasWorkspaceOverride = inspected.workspaceValue !== undefined || inspected.workspaceFolderValue !== undefined;
 	return { value, hasWorkspaceOverride };
 }
@@ -735,13 +6630,34 @@ function createRunId(): string {
 	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
 }
 
-function createQuickItShellTask(definition: vscode.TaskDefinition, name: string, commandLine: string): vscode.Task {
+function createQuickItShellTask(
+	definition: vscode.TaskDefinition,
+	name: string,
+	commandLine: string,
+	options?: vscode.ShellExecutionOptions
+): vscode.Task {
+	return createQuickItTask(definition, name, new vscode.ShellExecution(commandLine, options));
+}
+
+function createQuickItCustomTask(
+	definition: vscode.TaskDefinition,
+	name: string,
+	createPseudoterminal: () => Promise<vscode.Pseudoterminal>
+): vscode.Task {
+	return createQuickItTask(definition, name, new vscode.CustomExecution(createPseudoterminal));
+}
+
+function createQuickItTask(
+	definition: vscode.TaskDefinition,
+	name: string,
+	execution: vscode.ShellExecution | vscode.CustomExecution
+): vscode.Task {
 	const task = new vscode.Task(
 		definition,
 		vscode.TaskScope.Global,
 		name,
 		'QuickIt',
-		new vscode.ShellExecution(commandLine)
+		execution
 	);
 
 	task.presentationOptions = {
@@ -754,7 +6670,11 @@ function createQuickItShellTask(definition: vscode.TaskDefinition, name: string,
 	return task;
 }
 
-async function executeQuickItTask(task: vscode.Task, runId: string): Promise<number | undefined> {
+async function executeQuickItTask(
+	task: vscode.Task,
+	runId: string,
+	onDidStart?: (execution: vscode.TaskExecution) => void
+): Promise<number | undefined> {
 	return await new Promise<number | undefined>((resolve, reject) => {
 		let settled = false;
 		const settle = (callback: () => void): void => {
@@ -787,19 +6707,68 @@ async function executeQuickItTask(task: vscode.Task, runId: string): Promise<num
 		});
 
 		vscode.tasks.executeTask(task).then(
-			() => undefined,
+			(execution) => onDidStart?.(execution),
 			(error) => settle(() => reject(error))
 		);
 	});
 }
 
 export const __test__ = {
+	ArgumentPresetStore,
+	EnvironmentSecretStore,
+	RunHistoryStore,
+	ScriptOrderStore,
+	ScriptProcess,
 	ScriptsTreeProvider,
+	StatusBarPinStore,
 	BUILTIN_BY_EXTENSION,
+	appendCommandArguments,
+	buildLanguageCommand,
+	compareVersions,
+	createAvailableFileName,
+	createRemoteProcessSpec,
+	createReplayOptions,
+	createRunLogFileName,
+	createRunVariables,
+	createVariableEnvironment,
+	deleteUnreferencedRunLogs,
+	formatArgumentsForDisplay,
+	fillTemplatePlaceholders,
+	fitEditorOutputToInput,
+	formatDuration,
 	getInitialTemplateForExtension,
+	getMinVersionCommand,
+	getNestedLibraryRoots,
+	getNextScheduleTime,
+	getPipelineStepCandidates,
+	isInUntrustedWorkspace,
 	isPathInside,
+	matchScriptNames,
+	matchesScriptFilter,
 	normalizeExtension,
 	normalizeScriptFileName,
+	parseCommandArguments,
+	parseEnvironmentProfiles,
+	parseExecutionTargets,
+	parseInlineScriptMetadata,
+	parseLanguageSettings,
+	parseLibrarySettings,
+	parsePipelineDefinition,
+	parseInterpreterVersion,
+	parseScriptBundle,
+	parseScriptInput,
+	parseScriptMetadata,
+	parseScriptSchedule,
+	remapMovedUri,
+	reserveRunSlot,
 	resolveDirectoryPath,
+	resolveRunValues,
+	serializeScriptBundle,
+	shouldCaptureOutput,
+	sortByScriptOrder,
+	substituteMaskedVariables,
+	substituteVariables,
+	unmaskReplayedValue,
+	validateFolderNameInput,
 	validateScriptNameInput
 };
@@ -1,4 +1,5 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import * as vscode from 'vscode';
@@ -6,6 +7,14 @@ import * as vscode from 'vscode';
 import { __test__ } from '../extension';
 
 suite('QuickIt', () => {
+	const createMemento = (values = new Map<string, unknown>()): vscode.Memento => ({
+		keys: () => [...values.keys()],
+		get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) as T : defaultValue),
+		update: async (key: string, value: unknown) => {
+			values.set(key, value);
+		}
+	}) as vscode.Memento;
+
 	test('validateScriptNameInput validates names and extensions', () => {
 		assert.ok(__test__.validateScriptNameInput('', '.ps1'));
 		assert.ok(__test__.validateScriptNameInput('..', '.ps1'));
@@ -24,6 +33,322 @@ suite('QuickIt', () => {
 		assert.strictEqual(__test__.normalizeScriptFileName('script.ps1', '.ps1'), 'script.ps1');
 	});
 
+	test('validateFolderNameInput rejects paths and hidden folders', () => {
+		assert.ok(__test__.validateFolderNameInput(''));
+		assert.ok(__test__.validateFolderNameInput('a/b'));
+		assert.ok(__test__.validateFolderNameInput('.hidden'));
+		assert.ok(__test__.validateFolderNameInput('nul'));
+
+		assert.strictEqual(__test__.validateFolderNameInput('deploy'), undefined);
+	});
+
+	test('parseCommandArguments splits quoted arguments', () => {
+		assert.deepStrictEqual(__test__.parseCommandArguments(''), []);
+		assert.deepStrictEqual(__test__.parseCommandArguments('--verbose  -n 3'), ['--verbose', '-n', '3']);
+		assert.deepStrictEqual(__test__.parseCommandArguments('--name "my value" \'it"s\''), ['--name', 'my value', 'it"s']);
+		assert.deepStrictEqual(__test__.parseCommandArguments('""'), ['']);
+		assert.throws(() => __test__.parseCommandArguments('"unterminated'));
+
+		const original = ['plain', 'with space', 'quote"inside', 'C:\\tools\\bin'];
+		assert.deepStrictEqual(__test__.parseCommandArguments(__test__.formatArgumentsForDisplay(original)), original);
+	});
+
+	test('parseScriptMetadata reads the leading comment block', () => {
+		const metadata = __test__.parseScriptMetadata([
+			'#!/usr/bin/env bash',
+			'# @description Deploy the app',
+			'# @tags deploy, #prod',
+			'# @cwd ~/projects',
+			'# @env STAGE=prod',
+			'# @env URL=https://example.com/?a=b',
+			'# @interpreter zsh',
+			'echo done',
+			'# @description ignored'
+		].join('\n'), ['#']);
+
+		assert.strictEqual(metadata.description, 'Deploy the app');
+		assert.deepStrictEqual(metadata.tags, ['deploy', 'prod']);
+		assert.strictEqual(metadata.cwd, '~/projects');
+		assert.deepStrictEqual(metadata.env, { STAGE: 'prod', URL: 'https://example.com/?a=b' });
+		assert.strictEqual(metadata.interpreter, 'zsh');
+
+		assert.strictEqual(__test__.parseScriptMetadata('# @concurrency Queue', ['#']).concurrency, 'queue');
+		assert.strictEqual(__test__.parseScriptMetadata('# @concurrency sometimes', ['#']).concurrency, undefined);
+		assert.strictEqual(__test__.parseScriptMetadata('// @description js\n# @description other', ['//']).description, 'js');
+	});
+
+	test('parseScriptMetadata collects event triggers', () => {
+		const metadata = __test__.parseScriptMetadata([
+			'# @trigger save **/*.md',
+			'# @trigger workspaceOpen',
+			'# @trigger branchChange main',
+			'# @trigger BranchChange',
+			'# @trigger taskEnd npm: build',
+			'# @trigger save',
+			'# @trigger sometimes'
+		].join('\n'), ['#']);
+
+		assert.deepStrictEqual(metadata.triggers, [
+			{ event: 'save', pattern: '**/*.md' },
+			{ event: 'workspaceOpen' },
+			{ event: 'branchChange', branch: 'main' },
+			{ event: 'branchChange', branch: undefined },
+			{ event: 'taskEnd', taskName: 'npm: build' }
+		]);
+	});
+
+	test('substituteVariables resolves run variables and exports them as environment variables', async () => {
+		const variables = __test__.createRunVariables('/scripts/deploy.sh', undefined, '/work/app');
+		assert.strictEqual(await __test__.substituteVariables('${workspaceFolder}/dist', variables), '/work/app/dist');
+		assert.strictEqual(await __test__.substituteVariables('${scriptDirname}', variables), '/scripts');
+		await assert.rejects(__test__.substituteVariables('${fileDirname}', variables));
+
+		const environment = __test__.createVariableEnvironment(variables);
+		assert.strictEqual(environment.QUICKIT_WORKSPACE_FOLDER, '/work/app');
+		assert.strictEqual(environment.QUICKIT_SCRIPT_BASENAME, 'deploy.sh');
+	});
+
+	test('substituteVariables prompts for inputs and reads environment variables', async () => {
+		const prompted: string[] = [];
+		const resolveInput = async (id: string): Promise<string | undefined> => {
+			prompted.push(id);
+			return id === 'cancelled' ? undefined : `value-of-${id}`;
+		};
+
+		assert.strictEqual(
+			await __test__.substituteVariables('--branch=${input:branchName}', {}, resolveInput),
+			'--branch=value-of-branchName'
+		);
+		assert.strictEqual(await __test__.substituteVariables('${input:cancelled}', {}, resolveInput), undefined);
+		assert.deepStrictEqual(prompted, ['branchName', 'cancelled']);
+		assert.strictEqual(await __test__.substituteVariables('${env:QUICK_IT_UNSET_VARIABLE}', {}), '');
+		await assert.rejects(__test__.substituteVariables('${input:branchName}', {}));
+		await assert.rejects(__test__.substituteVariables('${command:foo}', {}, resolveInput));
+
+		// Password inputs are kept out of history and asked for again when the run is replayed.
+		const firstRun = await __test__.resolveRunValues(['--user=${input:user}', '--password=${input:password}'], false, {}, resolveInput, {}, new Set(['password']));
+		assert.deepStrictEqual(firstRun, {
+			resolved: ['--user=value-of-user', '--password=value-of-password'],
+			masked: ['--user=value-of-user', '--password=${input:password}']
+		});
+		prompted.length = 0;
+		const replayedRun = await __test__.resolveRunValues(firstRun?.masked ?? [], true, {}, resolveInput, {});
+		assert.deepStrictEqual(replayedRun?.resolved, firstRun?.resolved);
+		assert.deepStrictEqual(prompted, ['password']);
+	});
+
+	test('parseScriptInput reads text, password and pick inputs', () => {
+		assert.deepStrictEqual(__test__.parseScriptInput('branchName Branch to deploy'), {
+			id: 'branchName',
+			type: 'text',
+			prompt: 'Branch to deploy',
+			options: []
+		});
+		assert.strictEqual(__test__.parseScriptInput('token password API token')?.type, 'password');
+		assert.deepStrictEqual(__test__.parseScriptInput('stage pick dev | staging, prod')?.options, ['dev', 'staging', 'prod']);
+	});
+
+	test('RunHistoryStore keeps the newest entries up to the cap', async () => {
+		const memento = createMemento();
+		const store = new __test__.RunHistoryStore(memento);
+
+		for (const id of ['a', 'b', 'c']) {
+			await store.add({ id, scriptUri: 'file:///s.sh', scriptName: 's.sh', startedAt: 0, durationMs: 5, exitCode: 0, arguments: [] }, 2);
+		}
+
+		assert.deepStrictEqual(store.getAll().map((entry) => entry.id), ['c', 'b']);
+		await store.trim(1);
+		assert.deepStrictEqual(store.getAll().map((entry) => entry.id), ['c']);
+		assert.strictEqual(__test__.formatDuration(1500), '1.5s');
+		assert.strictEqual(__test__.formatDuration(125000), '2m 5s');
+		assert.strictEqual(__test__.formatDuration(119600), '2m 0s');
+		assert.strictEqual(__test__.formatDuration(59960), '1m 0s');
+	});
+
+	test('run logs are named per run and follow the capture setting', () => {
+		assert.strictEqual(
+			__test__.createRunLogFileName('r1', 'db/seed data.sh', new Date('2026-03-04T05:06:07.089Z')),
+			'2026-03-04T05-06-07-089Z-db_seed_data.sh-r1.log'
+		);
+		assert.strictEqual(__test__.shouldCaptureOutput(__test__.parseScriptMetadata('# @capture off', ['#']), true), false);
+		assert.strictEqual(__test__.shouldCaptureOutput(__test__.parseScriptMetadata('# @capture on', ['#']), false), true);
+		assert.strictEqual(__test__.shouldCaptureOutput(__test__.parseScriptMetadata('echo hi', ['#']), true), true);
+		assert.strictEqual(__test__.shouldCaptureOutput(__test__.parseScriptMetadata('echo hi', ['#']), false), false);
+	});
+
+	test('deleteUnreferencedRunLogs keeps only the logs it is given', async () => {
+		const logsUri = vscode.Uri.file(path.join(os.tmpdir(), `quick-it-test-logs-${Date.now()}`));
+		await vscode.workspace.fs.createDirectory(logsUri);
+
+		try {
+			for (const fileName of ['kept.log', 'running.log', 'orphan.log', 'notes.txt']) {
+				await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(logsUri, fileName), Buffer.from('output', 'utf8'));
+			}
+
+			// History entries, runs that are still going, and entries without a log.
+			await __test__.deleteUnreferencedRunLogs(logsUri, [path.join(logsUri.fsPath, 'kept.log'), undefined, path.join(logsUri.fsPath, 'running.log')]);
+			const remaining = (await vscode.workspace.fs.readDirectory(logsUri)).map(([name]) => name).sort();
+			assert.deepStrictEqual(remaining, ['kept.log', 'notes.txt', 'running.log']);
+			await __test__.deleteUnreferencedRunLogs(vscode.Uri.joinPath(logsUri, 'missing'), []);
+		} finally {
+			await vscode.workspace.fs.delete(logsUri, { recursive: true, useTrash: false });
+		}
+	});
+
+	test('running scripts are marked for stop and restart with their resolved run', async () => {
+		const tempUri = vscode.Uri.file(path.join(os.tmpdir(), `quick-it-test-running-${Date.now()}`));
+		await vscode.workspace.fs.createDirectory(tempUri);
+
+		try {
+			for (const fileName of ['build.sh', 'serve.sh']) {
+				await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(tempUri, fileName), Buffer.from('echo test', 'utf8'));
+			}
+
+			const provider = new __test__.ScriptsTreeProvider(
+				async () => tempUri,
+				(uri) => __test__.BUILTIN_BY_EXTENSION.get(__test__.normalizeExtension(path.extname(uri.fsPath))),
+				{ isScriptRunning: (uri) => path.basename(uri.fsPath) === 'serve.sh' }
+			);
+			const [build, serve] = await provider.getChildren();
+			assert.strictEqual(build.contextValue, 'quickIt.script');
+			assert.strictEqual(serve.contextValue, 'quickIt.script.running');
+			assert.strictEqual((serve.iconPath as vscode.ThemeIcon).id, 'loading~spin');
+		} finally {
+			await vscode.workspace.fs.delete(tempUri, { recursive: true, useTrash: false });
+		}
+
+		assert.deepStrictEqual(__test__.createReplayOptions(['--port', '8080'], { MODE: 'dev' }, '/work/app', 'local'), {
+			scriptArguments: ['--port', '8080'],
+			environment: { MODE: 'dev' },
+			workingDirectory: { mode: 'custom', path: '/work/app' },
+			substituteVariables: false,
+			target: 'local'
+		});
+	});
+
+	test('reserveRunSlot rejects singleton runs and starts queued runs in order', async () => {
+		const script = { uri: vscode.Uri.file('/scripts/deploy.sh'), descriptor: __test__.BUILTIN_BY_EXTENSION.get('.sh')! };
+		const createRun = (runId: string) => ({ runId, script, replayOptions: {}, stopRequested: false, queued: false, finished: Promise.resolve() });
+		const activeRuns = new Map<string, ReturnType<typeof createRun>>();
+		const stopRuns = async (runs: readonly ReturnType<typeof createRun>[]) => {
+			runs.forEach((run) => {
+				run.stopRequested = true;
+			});
+			await Promise.all(runs.map((run) => run.finished));
+		};
+
+		const [releaseFirst, rejected] = await Promise.all([
+			__test__.reserveRunSlot(activeRuns, createRun('a'), 'singleton', stopRuns),
+			__test__.reserveRunSlot(activeRuns, createRun('b'), 'singleton', stopRuns)
+		]);
+		assert.strictEqual(typeof releaseFirst, 'function');
+		assert.strictEqual(rejected, 'alreadyRunning');
+		assert.deepStrictEqual([...activeRuns.keys()], ['a']);
+
+		const started: string[] = [];
+		const queuedRuns = ['q1', 'q2'].map(createRun);
+		const queuedReservations = queuedRuns.map((run) => __test__.reserveRunSlot(activeRuns, run, 'queue', stopRuns).then((release) => {
+			started.push(run.runId);
+			return release;
+		}));
+		assert.deepStrictEqual(queuedRuns.map((run) => run.queued), [true, true]);
+		await new Promise((resolve) => setImmediate(resolve));
+		assert.deepStrictEqual(started, []);
+
+		(releaseFirst as () => void)();
+		const releaseQ1 = await queuedReservations[0];
+		await new Promise((resolve) => setImmediate(resolve));
+		assert.deepStrictEqual(started, ['q1']);
+		(releaseQ1 as () => void)();
+		const releaseQ2 = await queuedReservations[1];
+		assert.deepStrictEqual(started, ['q1', 'q2']);
+
+		const restartRun = createRun('r');
+		const restartReservation = __test__.reserveRunSlot(activeRuns, restartRun, 'restart', stopRuns);
+		assert.strictEqual(activeRuns.get('q2')?.stopRequested, true);
+		(releaseQ2 as () => void)();
+		assert.strictEqual(typeof await restartReservation, 'function');
+		assert.deepStrictEqual([...activeRuns.keys()], ['r']);
+	});
+
+	test('StatusBarPinStore keeps pin order and updates pins in place', async () => {
+		const memento = createMemento();
+		const store = new __test__.StatusBarPinStore(memento);
+
+		await store.save({ scriptUri: 'file:///a.sh', text: 'A', icon: 'play' });
+		await store.save({ scriptUri: 'file:///b.sh', text: 'B', icon: 'rocket' });
+		await store.save({ scriptUri: 'file:///a.sh', text: 'Deploy', icon: 'cloud-upload' });
+		assert.deepStrictEqual(store.getAll().map((pin) => pin.text), ['Deploy', 'B']);
+		assert.strictEqual(store.get(vscode.Uri.parse('file:///b.sh'))?.icon, 'rocket');
+
+		await store.remove(vscode.Uri.parse('file:///a.sh'));
+		assert.deepStrictEqual(store.getAll().map((pin) => pin.scriptUri), ['file:///b.sh']);
+	});
+
+	test('parsePipelineDefinition validates steps and parallel groups', () => {
+		const definition = __test__.parsePipelineDefinition(JSON.stringify({
+			description: 'Build and seed',
+			steps: [
+				'build.sh',
+				{ script: 'migrate.py', args: '--yes "two words"', continueOnError: true },
+				{ parallel: [{ script: 'seed.py' }, { script: 'warm.sh', args: ['--fast'] }] }
+			]
+		}));
+
+		assert.strictEqual(definition.description, 'Build and seed');
+		assert.deepStrictEqual(definition.steps[0], { script: 'build.sh' });
+		assert.deepStrictEqual(definition.steps[1], {
+			script: 'migrate.py',
+			name: undefined,
+			args: ['--yes', 'two words'],
+			continueOnError: true
+		});
+		assert.ok('parallel' in definition.steps[2] && definition.steps[2].parallel.length === 2);
+
+		assert.throws(() => __test__.parsePipelineDefinition('{'));
+		assert.throws(() => __test__.parsePipelineDefinition('{"steps": []}'));
+		assert.throws(() => __test__.parsePipelineDefinition('{"steps": [{"args": []}]}'));
+		assert.throws(() => __test__.parsePipelineDefinition('{"steps": [{"parallel": []}]}'));
+	});
+
+	test('parseScriptSchedule reads intervals and cron expressions', () => {
+		const interval = __test__.parseScriptSchedule('every 2 hours');
+		assert.ok(interval.kind === 'interval' && interval.intervalMinutes === 120);
+		assert.strictEqual(__test__.getNextScheduleTime(interval, 0), 2 * 60 * 60 * 1000);
+
+		const weekdays = __test__.parseScriptSchedule('30 9 * * 1-5');
+		const friday = new Date(2026, 0, 2, 10, 0).getTime();
+		assert.strictEqual(__test__.getNextScheduleTime(weekdays, friday), new Date(2026, 0, 5, 9, 30).getTime());
+
+		const quarterHours = __test__.parseScriptSchedule('cron */15 * * * *');
+		assert.strictEqual(
+			__test__.getNextScheduleTime(quarterHours, new Date(2026, 0, 1, 8, 15).getTime()),
+			new Date(2026, 0, 1, 8, 30).getTime()
+		);
+
+		const firstOrSunday = __test__.parseScriptSchedule('0 0 1 * 7');
+		assert.strictEqual(
+			__test__.getNextScheduleTime(firstOrSunday, new Date(2026, 0, 1, 12, 0).getTime()),
+			new Date(2026, 0, 4, 0, 0).getTime()
+		);
+
+		assert.throws(() => __test__.parseScriptSchedule('every 0m'));
+		assert.throws(() => __test__.parseScriptSchedule('61 * * * *'));
+		assert.throws(() => __test__.parseScriptSchedule('whenever'));
+		assert.ok(__test__.parseScriptMetadata('# @schedule soon', ['#']).scheduleError);
+	});
+
+	test('matchScriptNames prefers full paths over file names', () => {
+		const relativePaths = ['deploy.sh', 'db/migrate.py', 'db/deploy.sh', 'tools/migrate.sh'];
+		assert.deepStrictEqual(__test__.matchScriptNames(relativePaths, 'db/deploy.sh'), ['db/deploy.sh']);
+		assert.deepStrictEqual(__test__.matchScriptNames(relativePaths, 'deploy.sh'), ['deploy.sh']);
+		assert.deepStrictEqual(__test__.matchScriptNames(relativePaths, 'DEPLOY'), ['deploy.sh']);
+		assert.deepStrictEqual(__test__.matchScriptNames(relativePaths, 'db/migrate'), ['db/migrate.py']);
+		assert.deepStrictEqual(__test__.matchScriptNames(relativePaths, 'migrate'), ['db/migrate.py', 'tools/migrate.sh']);
+		assert.deepStrictEqual(__test__.matchScriptNames(relativePaths, 'db\\migrate.py'), ['db/migrate.py']);
+		assert.deepStrictEqual(__test__.matchScriptNames(relativePaths, 'db/missing'), []);
+	});
+
 	test('resolveDirectoryPath expands tilde', () => {
 		assert.strictEqual(__test__.resolveDirectoryPath('~'), os.homedir());
 		assert.strictEqual(__test__.resolveDirectoryPath('~/quick-it'), path.resolve(os.homedir(), 'quick-it'));
@@ -60,4 +385,428 @@ suite('QuickIt', () => {
 			await vscode.workspace.fs.delete(tempUri, { recursive: true, useTrash: false });
 		}
 	});
+
+	test('ScriptsTreeProvider lists folders before scripts and nests their contents', async () => {
+		const tempDir = path.join(os.tmpdir(), `quick-it-test-nested-${Date.now()}`);
+		const tempUri = vscode.Uri.file(tempDir);
+		await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(tempUri, 'deploy'));
+		await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(tempUri, '.git'));
+
+		try {
+			for (const fileName of ['root.sh', 'deploy/prod.sh', 'deploy/notes.txt']) {
+				await vscode.workspace.fs.writeFile(
+					vscode.Uri.joinPath(tempUri, fileName),
+					Buffer.from('echo test', 'utf8')
+				);
+			}
+
+			const provider = new __test__.ScriptsTreeProvider(
+				async () => tempUri,
+				(uri) => __test__.BUILTIN_BY_EXTENSION.get(__test__.normalizeExtension(path.extname(uri.fsPath)))
+			);
+
+			const rootItems = await provider.getChildren();
+			const rootLabels = rootItems.map((item) => (typeof item.label === 'string' ? item.label : item.label?.label));
+			assert.deepStrictEqual(rootLabels, ['deploy', 'root.sh']);
+			assert.strictEqual(rootItems[0].collapsibleState, vscode.TreeItemCollapsibleState.Collapsed);
+
+			const nestedItems = await provider.getChildren(rootItems[0]);
+			const nestedLabels = nestedItems.map((item) => (typeof item.label === 'string' ? item.label : item.label?.label));
+			assert.deepStrictEqual(nestedLabels, ['prod.sh']);
+		} finally {
+			await vscode.workspace.fs.delete(tempUri, { recursive: true, useTrash: false });
+		}
+	});
+
+	test('ScriptsTreeProvider groups by tag, lists favorites first and filters', async () => {
+		const tempDir = path.join(os.tmpdir(), `quick-it-test-grouped-${Date.now()}`);
+		const tempUri = vscode.Uri.file(tempDir);
+		await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(tempUri, 'db'));
+
+		try {
+			const files: Record<string, string> = {
+				'deploy.sh': '# @tags ops, prod\necho deploy',
+				'db/migrate.py': '# @tags db\nprint("migrate")',
+				'notes.sh': 'echo notes'
+			};
+			for (const [fileName, content] of Object.entries(files)) {
+				await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(tempUri, fileName), Buffer.from(content, 'utf8'));
+			}
+
+			let filter: string | undefined;
+			const provider = new __test__.ScriptsTreeProvider(
+				async () => tempUri,
+				(uri) => __test__.BUILTIN_BY_EXTENSION.get(__test__.normalizeExtension(path.extname(uri.fsPath))),
+				{
+					getFavoriteScripts: () => [vscode.Uri.joinPath(tempUri, 'notes.sh')],
+					getGrouping: () => 'tag',
+					getFilter: () => filter
+				}
+			);
+			const getLabels = (items: readonly vscode.TreeItem[]) => items.map((item) => (typeof item.label === 'string' ? item.label : item.label?.label));
+
+			const groups = await provider.getChildren();
+			assert.deepStrictEqual(getLabels(groups), ['Favorites', '#db', '#ops', '#prod', 'Untagged']);
+			assert.deepStrictEqual(getLabels(await provider.getChildren(groups[2])), ['deploy.sh']);
+			assert.notStrictEqual((await provider.getChildren(groups[2]))[0].id, (await provider.getChildren(groups[3]))[0].id);
+
+			filter = 'migrate';
+			const filteredGroups = await provider.getChildren();
+			assert.deepStrictEqual(getLabels(filteredGroups), ['#db']);
+			assert.deepStrictEqual(getLabels(await provider.getChildren(filteredGroups[0])), ['db/migrate.py']);
+		} finally {
+			await vscode.workspace.fs.delete(tempUri, { recursive: true, useTrash: false });
+		}
+	});
+
+	test('matchesScriptFilter requires every word to match a path, tag, description or content', async () => {
+		const metadata = __test__.parseScriptMetadata('# @description Rebuild the index\n# @tags search', ['#']);
+		const readContent = async () => 'curl http://localhost:9200';
+		assert.strictEqual(await __test__.matchesScriptFilter('index #search', 'tools/reindex.sh', metadata, readContent), true);
+		assert.strictEqual(await __test__.matchesScriptFilter('#sea', 'tools/reindex.sh', metadata, readContent), false);
+		assert.strictEqual(await __test__.matchesScriptFilter('9200 tools', 'tools/reindex.sh', metadata, readContent), true);
+		assert.strictEqual(await __test__.matchesScriptFilter('deploy', 'tools/reindex.sh', metadata, readContent), false);
+	});
+
+	test('ScriptsTreeProvider lists each library and marks read-only scripts', async () => {
+		const tempDir = path.join(os.tmpdir(), `quick-it-test-libraries-${Date.now()}`);
+		const personalUri = vscode.Uri.file(path.join(tempDir, 'personal'));
+		const teamUri = vscode.Uri.file(path.join(tempDir, 'team'));
+		await vscode.workspace.fs.createDirectory(personalUri);
+		await vscode.workspace.fs.createDirectory(teamUri);
+
+		try {
+			await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(personalUri, 'notes.sh'), Buffer.from('echo notes', 'utf8'));
+			await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(teamUri, 'deploy.sh'), Buffer.from('echo deploy', 'utf8'));
+
+			let filter: string | undefined;
+			const provider = new __test__.ScriptsTreeProvider(
+				async () => personalUri,
+				(uri) => __test__.BUILTIN_BY_EXTENSION.get(__test__.normalizeExtension(path.extname(uri.fsPath))),
+				{
+					getAdditionalLibraries: async () => [{ name: 'Team', uri: teamUri, readOnly: true }],
+					getFilter: () => filter
+				}
+			);
+			const getLabels = (items: readonly vscode.TreeItem[]) => items.map((item) => (typeof item.label === 'string' ? item.label : item.label?.label));
+
+			const libraries = await provider.getChildren();
+			assert.deepStrictEqual(getLabels(libraries), ['Personal', 'Team']);
+			assert.strictEqual(libraries[1].contextValue, 'quickIt.library.readOnly');
+			const teamScripts = await provider.getChildren(libraries[1]);
+			assert.deepStrictEqual(getLabels(teamScripts), ['deploy.sh']);
+			assert.strictEqual(teamScripts[0].contextValue, 'quickIt.script.readOnly');
+
+			filter = 'sh';
+			assert.deepStrictEqual(getLabels(await provider.getChildren()), ['notes.sh', 'Team/deploy.sh']);
+		} finally {
+			await vscode.workspace.fs.delete(vscode.Uri.file(tempDir), { recursive: true, useTrash: false });
+		}
+	});
+
+	test('parseLibrarySettings skips invalid, duplicate and reserved library names', () => {
+		const libraries = __test__.parseLibrarySettings([
+			{ name: 'Team', path: '/srv/team-scripts', readOnly: true },
+			{ name: 'team', path: '/srv/other' },
+			{ name: 'Personal', path: '/srv/personal' },
+			{ name: 'Ops' },
+			'not-a-library',
+			{ name: 'Ops', path: '~/ops' }
+		]);
+		assert.deepStrictEqual(libraries.map((library) => [library.name, library.uri.fsPath, library.readOnly]), [
+			['Team', path.resolve('/srv/team-scripts'), true],
+			['Ops', path.join(os.homedir(), 'ops'), false]
+		]);
+		assert.deepStrictEqual(__test__.parseLibrarySettings(undefined), []);
+	});
+
+	test('getNestedLibraryRoots finds libraries cloned inside another library', () => {
+		const personal = { name: 'Personal', uri: vscode.Uri.file('/home/sam/scripts'), readOnly: false };
+		const team = { name: 'Team', uri: vscode.Uri.file('/home/sam/scripts/team'), readOnly: true };
+		const ops = { name: 'Ops', uri: vscode.Uri.file('/srv/ops'), readOnly: false };
+		assert.deepStrictEqual(__test__.getNestedLibraryRoots([personal, team, ops], personal).map((uri) => uri.fsPath), [team.uri.fsPath]);
+		assert.deepStrictEqual(__test__.getNestedLibraryRoots([personal, team, ops], team), []);
+	});
+
+	test('getPipelineStepCandidates keeps pipeline steps inside the script libraries', () => {
+		const personal = { name: 'Personal', uri: vscode.Uri.file('/home/sam/scripts'), readOnly: false };
+		const team = { name: 'Team', uri: vscode.Uri.file('/srv/team'), readOnly: true };
+		const pipelineUri = vscode.Uri.file('/srv/team/release/ship.pipeline.json');
+		assert.deepStrictEqual(__test__.getPipelineStepCandidates(pipelineUri, 'build.sh', [personal, team]), [
+			path.resolve('/srv/team/release/build.sh'),
+			path.resolve('/srv/team/build.sh'),
+			path.resolve('/home/sam/scripts/build.sh')
+		]);
+		assert.deepStrictEqual(__test__.getPipelineStepCandidates(pipelineUri, '../build.sh', [personal, team]), [path.resolve('/srv/team/build.sh')]);
+		assert.throws(() => __test__.getPipelineStepCandidates(pipelineUri, '../../../etc/evil.sh', [personal, team]), /outside the script libraries/);
+	});
+
+	test('parseScriptBundle round-trips exported scripts and rejects unsafe paths', () => {
+		const bundle = {
+			scripts: [
+				{ path: 'db/migrate.py', content: 'print("migrate")', argumentPresets: [{ name: 'Dry run', arguments: ['--dry-run'] }], interpreter: '/opt/py311/bin/python' },
+				{ path: 'tools/report.rb', content: 'puts 1', argumentPresets: [] }
+			],
+			interpreters: { 'interpreters.python': 'python3' },
+			languageInterpreters: { '.rb': 'ruby3' }
+		};
+		assert.deepStrictEqual(__test__.parseScriptBundle(__test__.serializeScriptBundle(bundle)), bundle);
+
+		const createBundle = (scripts: unknown, interpreters: unknown = {}) => JSON.stringify({ format: 'quick-it-bundle', version: 1, interpreters, scripts });
+		assert.throws(() => __test__.parseScriptBundle('{"scripts": []}'), /not a QuickIt script bundle/);
+		assert.throws(() => __test__.parseScriptBundle(createBundle([{ path: '../escape.sh', content: '' }])), /invalid path/);
+		assert.throws(() => __test__.parseScriptBundle(createBundle([{ path: '/etc/profile.sh', content: '' }])), /invalid path/);
+		assert.throws(() => __test__.parseScriptBundle(createBundle([{ path: 'a.sh', content: '' }, { path: 'A.sh', content: '' }])), /more than once/);
+		assert.throws(() => __test__.parseScriptBundle(createBundle([], { scriptDirectory: '/tmp' })), /invalid interpreter setting/);
+		assert.throws(() => __test__.parseScriptBundle(createBundle([{ path: 'a.sh', content: '', interpreter: ' ' }])), /invalid interpreter/);
+		assert.throws(() => __test__.parseScriptBundle(JSON.stringify({ format: 'quick-it-bundle', version: 1, languageInterpreters: { 'rb/x': 'ruby' }, scripts: [] })), /invalid language interpreter/);
+	});
+
+	test('createAvailableFileName numbers scripts and pipelines before their extension', () => {
+		assert.strictEqual(__test__.createAvailableFileName('deploy.sh', 2), 'deploy-2.sh');
+		assert.strictEqual(__test__.createAvailableFileName('release.pipeline.json', 3), 'release-3.pipeline.json');
+		assert.strictEqual(__test__.createAvailableFileName('Makefile', 2), 'Makefile-2');
+	});
+
+	test('fillTemplatePlaceholders replaces only known placeholders', () => {
+		const content = '# ${name} by ${author} on ${date}\necho "${HOME}/${fileName}"\n';
+		assert.strictEqual(
+			__test__.fillTemplatePlaceholders(content, { name: 'deploy', author: 'sam', date: '2026-01-31', fileName: 'deploy.sh' }),
+			'# deploy by sam on 2026-01-31\necho "${HOME}/deploy.sh"\n'
+		);
+	});
+
+	test('ArgumentPresetStore.move follows renamed scripts and folders', async () => {
+		const memento = createMemento();
+		const store = new __test__.ArgumentPresetStore(memento);
+		await store.save(vscode.Uri.file('/scripts/db/migrate.py'), { name: 'Dry run', arguments: ['--dry-run'] });
+		await store.save(vscode.Uri.file('/scripts/dbtools.sh'), { name: 'Verbose', arguments: ['-v'] });
+
+		await store.move(vscode.Uri.file('/scripts/db'), vscode.Uri.file('/scripts/database'));
+		assert.deepStrictEqual(store.get(vscode.Uri.file('/scripts/database/migrate.py')).map((preset) => preset.name), ['Dry run']);
+		assert.deepStrictEqual(store.get(vscode.Uri.file('/scripts/db/migrate.py')), []);
+		assert.deepStrictEqual(store.get(vscode.Uri.file('/scripts/dbtools.sh')).map((preset) => preset.name), ['Verbose']);
+		assert.strictEqual(__test__.remapMovedUri('file:///scripts/a.sh', vscode.Uri.file('/scripts/a.sh'), vscode.Uri.file('/scripts/b.sh')), 'file:///scripts/b.sh');
+	});
+
+	test('ScriptOrderStore keeps a per-folder order across renames and moves', async () => {
+		const memento = createMemento();
+		const store = new __test__.ScriptOrderStore(memento);
+		const directory = vscode.Uri.file('/scripts/db');
+		await store.set(directory, ['seed.sh', 'migrate.py', 'backup.sh']);
+
+		const items = ['backup.sh', 'dump.sh', 'migrate.py', 'seed.sh'].map((name) => ({ uri: vscode.Uri.joinPath(directory, name) }));
+		assert.deepStrictEqual(
+			__test__.sortByScriptOrder(items, store.get(directory)).map((item) => path.basename(item.uri.fsPath)),
+			['seed.sh', 'migrate.py', 'backup.sh', 'dump.sh']
+		);
+
+		await store.move(vscode.Uri.joinPath(directory, 'seed.sh'), vscode.Uri.joinPath(directory, 'fixtures.sh'));
+		assert.deepStrictEqual(store.get(directory), ['fixtures.sh', 'migrate.py', 'backup.sh']);
+		await store.move(vscode.Uri.joinPath(directory, 'backup.sh'), vscode.Uri.file('/scripts/backup.sh'));
+		assert.deepStrictEqual(store.get(directory), ['fixtures.sh', 'migrate.py']);
+		await store.move(directory, vscode.Uri.file('/scripts/database'));
+		assert.deepStrictEqual(store.get(vscode.Uri.file('/scripts/database')), ['fixtures.sh', 'migrate.py']);
+		assert.deepStrictEqual(store.get(directory), []);
+	});
+
+	test('parseLanguageSettings builds descriptors and reports invalid entries', () => {
+		const { descriptors, errors } = __test__.parseLanguageSettings([
+			{ extension: 'rb', label: 'Ruby', languageId: 'ruby', interpreters: ['ruby'], template: '#!/usr/bin/env ruby\n' },
+			{ extension: '.go', label: 'Go', interpreters: ['go'], command: '${interpreter} run ${script} -- ${args}', commentPrefix: '//' },
+			{ extension: '.lua', interpreters: [] },
+			{ extension: '.php', interpreters: ['php'], command: '${interpreter} -r "echo 1;"' },
+			{ extension: 'tar.gz', interpreters: ['tar'] }
+		]);
+		assert.deepStrictEqual(descriptors.map((descriptor) => [descriptor.extension, descriptor.label, descriptor.commentPrefix]), [
+			['.rb', 'Ruby (.rb)', '#'],
+			['.go', 'Go (.go)', '//']
+		]);
+		assert.strictEqual(descriptors[0].initialTemplate, '#!/usr/bin/env ruby\n');
+		assert.strictEqual(errors.length, 3);
+
+		const quote = (value: string) => (process.platform === 'win32' ? `"${value}"` : `'${value}'`);
+		assert.strictEqual(descriptors[1].buildRunCommand('go', '/s/main.go', ['-v']), `go run ${quote('/s/main.go')} -- ${quote('-v')}`);
+		assert.strictEqual(descriptors[0].buildRunCommand('ruby', '/s/a.rb', []), `ruby ${quote('/s/a.rb')}`);
+		assert.strictEqual(__test__.buildLanguageCommand('${interpreter} ${script}', 'perl', '/s/a.pl', ['x']), `perl ${quote('/s/a.pl')} ${quote('x')}`);
+	});
+
+	test('parseInterpreterVersion and compareVersions read --version output', () => {
+		assert.strictEqual(__test__.parseInterpreterVersion('Python 3.11.4'), '3.11.4');
+		assert.strictEqual(__test__.parseInterpreterVersion('v20.10.0\n'), '20.10.0');
+		assert.strictEqual(__test__.parseInterpreterVersion('GNU bash, version 5.2.15(1)-release'), '5.2.15');
+		assert.strictEqual(__test__.parseInterpreterVersion('command not found'), undefined);
+		assert.ok(__test__.compareVersions('3.9.18', '3.10') < 0);
+		assert.strictEqual(__test__.compareVersions('3.10.0', '3.10'), 0);
+		assert.ok(__test__.compareVersions('20.1', '18') > 0);
+		assert.strictEqual(__test__.parseScriptMetadata('# @minVersion >=3.10', ['#']).minVersion, '3.10');
+		assert.strictEqual(__test__.getMinVersionCommand(__test__.BUILTIN_BY_EXTENSION.get('.ts')!, '/work/node_modules/.bin/tsx'), 'node');
+		assert.strictEqual(__test__.getMinVersionCommand(__test__.BUILTIN_BY_EXTENSION.get('.py')!, 'python3'), 'python3');
+	});
+
+	test('parseInlineScriptMetadata reads PEP 723 dependencies', () => {
+		const content = [
+			'#!/usr/bin/env python3',
+			'# /// script',
+			'# requires-python = ">=3.11"',
+			'# dependencies = [',
+			'#   "requests<3",',
+			"#   'rich',",
+			'# ]',
+			'# ///',
+			'import requests'
+		].join('\n');
+		assert.deepStrictEqual(__test__.parseInlineScriptMetadata(content), { dependencies: ['requests<3', 'rich'], minVersion: '3.11' });
+		assert.strictEqual(__test__.parseInlineScriptMetadata('# /// script\n# dependencies = ["x"]\nprint(1)'), undefined);
+		const metadata = __test__.parseScriptMetadata(content, ['#']);
+		assert.strictEqual(metadata.minVersion, '3.11');
+		assert.deepStrictEqual(metadata.dependencies, ['requests<3', 'rich']);
+		assert.strictEqual(__test__.parseScriptMetadata('# @venv ../.venv', ['#']).venv, '../.venv');
+
+		const workspaceFolders = [path.resolve('/work/repo')];
+		assert.strictEqual(__test__.isInUntrustedWorkspace(path.resolve('/work/repo/packages/app'), workspaceFolders, false), true);
+		assert.strictEqual(__test__.isInUntrustedWorkspace(path.resolve('/work/repo/packages/app'), workspaceFolders, true), false);
+		assert.strictEqual(__test__.isInUntrustedWorkspace(path.resolve('/home/me/scripts'), workspaceFolders, false), false);
+	});
+
+	test('parseExecutionTargets validates ssh and docker targets', () => {
+		const { targets, errors } = __test__.parseExecutionTargets([
+			{ name: 'staging', type: 'ssh', host: 'staging.example.com', user: 'deploy', port: 2222, interpreters: { py: 'python3' } },
+			{ name: 'dev', type: 'docker', container: 'app' },
+			{ name: 'local', type: 'ssh', host: 'x' },
+			{ name: 'broken', type: 'docker' },
+			{ type: 'ssh', host: 'y' }
+		]);
+		assert.deepStrictEqual(targets.map((target) => [target.name, target.backend, target.port]), [['staging', 'ssh', 2222], ['dev', 'docker', undefined]]);
+		assert.deepStrictEqual(targets[0].interpreters, { '.py': 'python3' });
+		assert.strictEqual(errors.length, 3);
+
+		const { spec } = __test__.createRemoteProcessSpec(targets[1], __test__.BUILTIN_BY_EXTENSION.get('.ps1')!, 'run3', '', [], {});
+		assert.ok(spec.args.some((arg) => arg.endsWith('-File \'/tmp/quickit-run3.ps1\' "$@"')), spec.args.join(' '));
+	});
+
+	test('createRemoteProcessSpec streams the script to stand-in ssh and docker targets', async function () {
+		if (process.platform === 'win32') {
+			this.skip();
+		}
+
+		const tempDir = path.join(os.tmpdir(), `quick-it-test-remote-${Date.now()}`);
+		const tempUri = vscode.Uri.file(tempDir);
+		await vscode.workspace.fs.createDirectory(tempUri);
+		try {
+			// Stands in for `docker exec -i <container>` by dropping those arguments and running the rest locally.
+			const fakeDocker = path.join(tempDir, 'fake-docker');
+			await vscode.workspace.fs.writeFile(vscode.Uri.file(fakeDocker), Buffer.from('#!/bin/sh\nshift 3\nexec "$@"\n', 'utf8'));
+			await fs.promises.chmod(fakeDocker, 0o755);
+			const { commandLine, spec } = __test__.createRemoteProcessSpec(
+				{ name: 'dev', backend: 'docker', command: fakeDocker, container: 'app', cwd: tempDir, interpreters: { '.sh': 'sh' } },
+				__test__.BUILTIN_BY_EXTENSION.get('.sh')!,
+				'run1',
+				'echo "$1|$GREETING|$(pwd)|$MULTI"\nexit 3\n',
+				['a b'],
+				{ GREETING: 'it\'s me', MULTI: 'x\ny' }
+			);
+			assert.ok(commandLine.startsWith('dev: sh quickit-run1.sh'));
+			assert.ok(!spec.args.join(' ').includes('it\'s me'));
+			assert.ok(!spec.args.includes('a b'));
+			let output = '';
+			const scriptProcess = new __test__.ScriptProcess('test', commandLine, spec, undefined, undefined, (text) => {
+				output += text;
+			});
+			await scriptProcess.start();
+			assert.strictEqual(await scriptProcess.exited, 3);
+			assert.ok(output.includes(`a b|it's me|${tempDir}|x\ny`), output);
+			assert.ok(!fs.existsSync('/tmp/quickit-run1.sh'));
+
+			// Stands in for `ssh <host> <command>` by handing the last argument to a local shell, as sshd would.
+			const fakeSsh = path.join(tempDir, 'fake-ssh');
+			await vscode.workspace.fs.writeFile(vscode.Uri.file(fakeSsh), Buffer.from('#!/bin/sh\nfor last; do :; done\nexec sh -c "$last"\n', 'utf8'));
+			await fs.promises.chmod(fakeSsh, 0o755);
+			const remote = __test__.createRemoteProcessSpec(
+				{ name: 'staging', backend: 'ssh', command: fakeSsh, host: 'staging', interpreters: { '.sh': 'sh' } },
+				__test__.BUILTIN_BY_EXTENSION.get('.sh')!,
+				'run2',
+				'printf "%s;" "$@"\n',
+				['it\'s', '$HOME'],
+				{}
+			);
+			let sshOutput = '';
+			const sshProcess = new __test__.ScriptProcess('test', remote.commandLine, remote.spec, undefined, undefined, (text) => {
+				sshOutput += text;
+			});
+			await sshProcess.start();
+			assert.strictEqual(await sshProcess.exited, 0);
+			assert.ok(sshOutput.endsWith('it\'s;$HOME;'), sshOutput);
+		} finally {
+			await vscode.workspace.fs.delete(tempUri, { recursive: true, useTrash: false });
+		}
+	});
+
+	test('ScriptProcess pipes input and keeps stdout apart from stderr', async () => {
+		const chunks: Record<string, string> = { stdout: '', stderr: '', status: '' };
+		const scriptProcess = new __test__.ScriptProcess(
+			'test',
+			'transform',
+			{ command: process.execPath, args: ['-e', 'process.stdin.on("data", (d) => process.stdout.write(String(d).toUpperCase())); console.error("done")'], shell: false, input: 'select 1\n' },
+			undefined,
+			undefined,
+			(text, source) => {
+				chunks[source] += text;
+			}
+		);
+		await scriptProcess.start();
+		assert.strictEqual(await scriptProcess.exited, 0);
+		assert.strictEqual(chunks.stdout, 'SELECT 1\n');
+		assert.strictEqual(chunks.stderr.trim(), 'done');
+		assert.strictEqual(__test__.fitEditorOutputToInput('select 1', chunks.stdout), 'SELECT 1');
+		assert.strictEqual(__test__.fitEditorOutputToInput('select 1\n', chunks.stdout), 'SELECT 1\n');
+	});
+
+	test('environment profile secrets are stored by name and masked in command lines', async () => {
+		const values = new Map<string, unknown>();
+		const memento = createMemento(values);
+		const storedSecrets = new Map<string, string>();
+		const secretStorage = {
+			get: async (key: string) => storedSecrets.get(key),
+			store: async (key: string, value: string) => {
+				storedSecrets.set(key, value);
+			},
+			delete: async (key: string) => {
+				storedSecrets.delete(key);
+			}
+		} as unknown as vscode.SecretStorage;
+		const store = new __test__.EnvironmentSecretStore(secretStorage, memento);
+		await store.set('staging', 'API_TOKEN', 's3cr3t-token');
+		await store.set('staging', 'DB_PASSWORD', 'hunter2');
+		await store.remove('staging', 'DB_PASSWORD');
+		assert.deepStrictEqual(store.getProfileNames(), ['staging']);
+		const secrets = await store.get('staging');
+		assert.deepStrictEqual(secrets, { API_TOKEN: 's3cr3t-token' });
+		assert.ok(![...values.values()].some((value) => JSON.stringify(value).includes('s3cr3t-token')));
+
+		const substitution = await __test__.substituteMaskedVariables('Authorization: ${secret: API_TOKEN}', {}, undefined, secrets);
+		assert.deepStrictEqual(substitution, { value: 'Authorization: s3cr3t-token', masked: 'Authorization: ${secret:API_TOKEN}' });
+		assert.deepStrictEqual(
+			await __test__.unmaskReplayedValue(substitution?.masked ?? '', secrets, async () => undefined),
+			{ value: 'Authorization: s3cr3t-token', masked: 'Authorization: ${secret:API_TOKEN}' }
+		);
+		assert.deepStrictEqual(
+			await __test__.substituteMaskedVariables('--retries=1 --pin=${secret:PIN} ${scriptBasename}', { scriptBasename: 'pin1.sh' }, undefined, { PIN: '1' }),
+			{ value: '--retries=1 --pin=1 pin1.sh', masked: '--retries=1 --pin=${secret:PIN} pin1.sh' }
+		);
+		await assert.rejects(__test__.unmaskReplayedValue('${secret:MISSING}', secrets, async () => undefined), /not set/);
+		assert.strictEqual(await __test__.substituteVariables('--token=${secret:API_TOKEN}', {}, undefined, secrets), '--token=s3cr3t-token');
+
+		const resolveInput = async () => undefined;
+		const firstRun = await __test__.resolveRunValues(['--token=${secret:API_TOKEN}', '${scriptBasename}'], false, { scriptBasename: 'deploy.sh' }, resolveInput, secrets);
+		assert.deepStrictEqual(firstRun?.resolved, ['--token=s3cr3t-token', 'deploy.sh']);
+		const restart = __test__.createReplayOptions(firstRun?.masked ?? [], {}, '/work', 'local');
+		assert.deepStrictEqual(restart.scriptArguments, ['--token=${secret:API_TOKEN}', 'deploy.sh']);
+		const restartedRun = await __test__.resolveRunValues(restart.scriptArguments ?? [], true, {}, resolveInput, secrets);
+		assert.deepStrictEqual(restartedRun, { resolved: ['--token=s3cr3t-token', 'deploy.sh'], masked: ['--token=${secret:API_TOKEN}', 'deploy.sh'] });
+
+		const { profiles, errors } = __test__.parseEnvironmentProfiles({ dev: { API_URL: 'http://localhost', RETRIES: 3, 'bad-name': 'x' }, broken: 'x' });
+		assert.deepStrictEqual(profiles, { dev: { API_URL: 'http://localhost', RETRIES: '3' } });
+		assert.strictEqual(errors.length, 2);
+	});
 });